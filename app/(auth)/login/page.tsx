@@ -113,7 +113,7 @@ export default function LoginPage() {
 
       // Step 1: Authenticate user
       const response = await authApi.login(data.email_or_phone, data.password)
-      login(response.access, response.refresh, response.data)
+      login(response.access, response.refresh, response.data, response.exp)
       
       // Step 2: Show success toast first
       toast.success("Connexion réussie!")
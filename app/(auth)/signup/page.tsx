@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import { useRouter } from "next/navigation"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
@@ -10,7 +10,8 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
-import { authApi, settingsApi } from "@/lib/api-client"
+import { authApi } from "@/lib/api-client"
+import { useSettings } from "@/hooks/use-settings"
 import { toast } from "react-hot-toast"
 import { Loader2, Eye, EyeOff } from "lucide-react"
 
@@ -30,25 +31,10 @@ type SignupFormData = z.infer<typeof baseSignupSchema> & {
 export default function SignupPage() {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
-  const [isLoadingSettings, setIsLoadingSettings] = useState(true)
   const [showPassword, setShowPassword] = useState(false)
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
-  const [referralBonusEnabled, setReferralBonusEnabled] = useState(false)
-
-  useEffect(() => {
-    const fetchSettings = async () => {
-      try {
-        const settings = await settingsApi.get()
-        setReferralBonusEnabled(settings?.referral_bonus === true)
-      } catch (error) {
-        console.error("Error fetching settings:", error)
-        setReferralBonusEnabled(false)
-      } finally {
-        setIsLoadingSettings(false)
-      }
-    }
-    fetchSettings()
-  }, [])
+  const { referral, isLoading: isLoadingSettings } = useSettings()
+  const referralBonusEnabled = referral.enabled
 
   const signupSchema = referralBonusEnabled
     ? baseSignupSchema
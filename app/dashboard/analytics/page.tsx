@@ -0,0 +1,264 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { format, startOfMonth, subMonths } from "date-fns"
+import { toast } from "react-hot-toast"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { AlertTriangle, ArrowLeft, Clock, Loader2, RefreshCw } from "lucide-react"
+import { networkApi, transactionApi } from "@/lib/api-client"
+import { useAuth } from "@/lib/auth-context"
+import {
+  formatDuration,
+  getMonthlyTotals,
+  getPlatformTotals,
+  getProcessingTimes,
+  getSuccessRateByNetwork,
+} from "@/lib/analytics"
+import type { Network, Transaction } from "@/lib/types"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+
+// Months shown in the monthly chart, which is also how far back the history is loaded
+const MONTHS = 6
+
+const amountsConfig = {
+  deposit: { label: "Dépôts", color: "var(--chart-1)" },
+  withdrawal: { label: "Retraits", color: "var(--chart-2)" },
+} satisfies ChartConfig
+
+const successRateConfig = {
+  rate: { label: "Taux de réussite (%)", color: "var(--chart-3)" },
+} satisfies ChartConfig
+
+const formatAmount = (value: number) => `${value.toLocaleString()} FCFA`
+
+const formatAxisAmount = (value: number) =>
+  value >= 1000000 ? `${value / 1000000}M` : value >= 1000 ? `${value / 1000}k` : String(value)
+
+export default function AnalyticsPage() {
+  const { user } = useAuth()
+  const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [networks, setNetworks] = useState<Network[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isTruncated, setIsTruncated] = useState(false)
+
+  const loadTransactions = async () => {
+    setIsLoading(true)
+    try {
+      const start = startOfMonth(subMonths(new Date(), MONTHS - 1))
+      const { transactions, truncated } = await transactionApi.getAllHistory({ start_date: format(start, "yyyy-MM-dd") })
+      setTransactions(transactions)
+      setIsTruncated(truncated)
+    } catch (error) {
+      console.error("Erreur chargement statistiques:", error)
+      toast.error("Erreur lors du chargement des statistiques")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (user) loadTransactions()
+  }, [user])
+
+  useEffect(() => {
+    networkApi
+      .getAll(undefined, { silent: true })
+      .then(setNetworks)
+      .catch((error) => console.error("Erreur chargement réseaux:", error))
+  }, [])
+
+  const monthlyTotals = useMemo(() => getMonthlyTotals(transactions, MONTHS), [transactions])
+  const successRates = useMemo(() => getSuccessRateByNetwork(transactions, networks), [transactions, networks])
+  const processingTimes = useMemo(() => getProcessingTimes(transactions), [transactions])
+  const platformTotals = useMemo(() => getPlatformTotals(transactions), [transactions])
+
+  const totals = monthlyTotals.reduce(
+    (sum, month) => ({ deposit: sum.deposit + month.deposit, withdrawal: sum.withdrawal + month.withdrawal }),
+    { deposit: 0, withdrawal: 0 },
+  )
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      )
+    }
+
+    if (transactions.length === 0) {
+      return (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Aucune transaction sur les {MONTHS} derniers mois
+          </CardContent>
+        </Card>
+      )
+    }
+
+    return (
+      <>
+        {isTruncated && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Seules vos {transactions.length} transactions les plus récentes sont prises en compte : les statistiques
+              ne couvrent pas toute la période.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Summary */}
+        <div className="grid gap-3 sm:gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Total déposé</CardDescription>
+              <CardTitle className="text-xl sm:text-2xl">{formatAmount(totals.deposit)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Total retiré</CardDescription>
+              <CardTitle className="text-xl sm:text-2xl">{formatAmount(totals.withdrawal)}</CardTitle>
+            </CardHeader>
+          </Card>
+          {processingTimes.map((time) => (
+            <Card key={time.type}>
+              <CardHeader className="pb-2">
+                <CardDescription className="flex items-center gap-1.5">
+                  <Clock className="h-3.5 w-3.5" />
+                  Traitement moyen {time.type === "deposit" ? "des dépôts" : "des retraits"}
+                </CardDescription>
+                <CardTitle className="text-xl sm:text-2xl">
+                  {time.averageMs === null ? "—" : formatDuration(time.averageMs)}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                Sur {time.count} transaction{time.count > 1 ? "s" : ""} validée{time.count > 1 ? "s" : ""}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Monthly totals */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Dépôts et retraits par mois</CardTitle>
+            <CardDescription>Montants des transactions acceptées</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={amountsConfig} className="aspect-auto h-64 sm:h-72 w-full">
+              <BarChart data={monthlyTotals}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={formatAxisAmount} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="deposit" fill="var(--color-deposit)" radius={4} />
+                <Bar dataKey="withdrawal" fill="var(--color-withdrawal)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4 sm:gap-6 grid-cols-1 lg:grid-cols-2">
+          {/* Success rate by network */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Taux de réussite par réseau</CardTitle>
+              <CardDescription>Transactions acceptées parmi celles terminées</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {successRates.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">Aucune transaction terminée</p>
+              ) : (
+                <ChartContainer config={successRateConfig} className="aspect-auto h-64 w-full">
+                  <BarChart data={successRates} layout="vertical" margin={{ left: 8 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" domain={[0, 100]} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="network" tickLine={false} axisLine={false} width={90} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          formatter={(value, _name, item) => (
+                            <span>
+                              {value} % ({item.payload.accepted}/{item.payload.total})
+                            </span>
+                          )}
+                        />
+                      }
+                    />
+                    <Bar dataKey="rate" fill="var(--color-rate)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Per-platform breakdown */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Répartition par plateforme</CardTitle>
+              <CardDescription>Montants des transactions acceptées</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {platformTotals.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">Aucune transaction acceptée</p>
+              ) : (
+                <ChartContainer config={amountsConfig} className="aspect-auto h-64 w-full">
+                  <BarChart data={platformTotals} layout="vertical" margin={{ left: 8 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={formatAxisAmount} />
+                    <YAxis type="category" dataKey="platform" tickLine={false} axisLine={false} width={90} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="deposit" fill="var(--color-deposit)" radius={4} />
+                    <Bar dataKey="withdrawal" fill="var(--color-withdrawal)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="space-y-4 sm:space-y-6 lg:space-y-8">
+        {/* Header */}
+        <div className="flex items-start gap-3">
+          <Button asChild variant="ghost" size="icon" className="h-9 w-9 mt-1">
+            <Link href="/dashboard">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div className="flex-1 space-y-2">
+            <h1 className="text-3xl sm:text-4xl font-bold tracking-tight">Statistiques</h1>
+            <p className="text-base sm:text-lg text-muted-foreground">
+              Vos dépôts et retraits sur les {MONTHS} derniers mois
+            </p>
+          </div>
+          <Button variant="outline" size="icon" onClick={loadTransactions} disabled={isLoading} className="h-9 w-9 mt-1">
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            <span className="sr-only">Actualiser</span>
+          </Button>
+        </div>
+
+        {renderContent()}
+      </div>
+    </div>
+  )
+}
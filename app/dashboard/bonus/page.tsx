@@ -8,7 +8,8 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Loader2, Gift, ArrowLeft } from "lucide-react"
 import Link from "next/link"
-import { bonusApi, settingsApi } from "@/lib/api-client"
+import { bonusApi } from "@/lib/api-client"
+import { useSettings } from "@/hooks/use-settings"
 import type { Bonus } from "@/lib/types"
 import { toast } from "react-hot-toast"
 import { format } from "date-fns"
@@ -19,37 +20,21 @@ export default function BonusPage() {
   const { user } = useAuth()
   const [bonuses, setBonuses] = useState<Bonus[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [isLoadingSettings, setIsLoadingSettings] = useState(true)
-  const [referralBonusEnabled, setReferralBonusEnabled] = useState(false)
+  const { referral, isLoading: isLoadingSettings } = useSettings()
+  const referralBonusEnabled = referral.enabled
 
   useEffect(() => {
-    const checkSettings = async () => {
-      try {
-        const settings = await settingsApi.get()
-        const enabled = settings?.referral_bonus === true
-        setReferralBonusEnabled(enabled)
-        
-        if (!enabled) {
-          // Redirect to dashboard if referral bonus is disabled
-          router.push("/dashboard")
-          return
-        }
-        
-        // If enabled, fetch bonuses
-        fetchBonuses()
-      } catch (error) {
-        console.error("Error fetching settings:", error)
-        setReferralBonusEnabled(false)
-        router.push("/dashboard")
-      } finally {
-        setIsLoadingSettings(false)
-      }
-    }
-    
-    if (user) {
-      checkSettings()
+    if (!user || isLoadingSettings) return
+
+    if (!referralBonusEnabled) {
+      // Redirect to dashboard if referral bonus is disabled
+      router.push("/dashboard")
+      return
     }
-  }, [user, router])
+
+    // If enabled, fetch bonuses
+    fetchBonuses()
+  }, [user, router, isLoadingSettings, referralBonusEnabled])
 
   const fetchBonuses = async () => {
     setIsLoading(true)
@@ -140,7 +125,7 @@ export default function BonusPage() {
                         <div className="flex-1 min-w-0 space-y-1.5">
                           <div className="flex items-center gap-2">
                             <Badge variant="default" className="text-xs sm:text-sm font-semibold">
-                            {parseFloat(bonus.amount).toLocaleString("fr-FR", {
+                            {bonus.amount.toLocaleString("fr-FR", {
                               style: "currency",
                               currency: "XOF",
                               minimumFractionDigits: 0,
@@ -1,64 +1,13 @@
 "use client"
 
-import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { useAuth } from "@/lib/auth-context"
-import { TransactionProgressBar } from "@/components/transaction/progress-bar"
-import { ConfirmationDialog } from "@/components/transaction/confirmation-dialog"
-import { PlatformStep } from "@/components/transaction/steps/platform-step"
-import { BetIdStep } from "@/components/transaction/steps/bet-id-step"
-import { NetworkStep } from "@/components/transaction/steps/network-step"
-import { PhoneStep } from "@/components/transaction/steps/phone-step"
-import { AmountStep } from "@/components/transaction/steps/amount-step"
-import { transactionApi, settingsApi } from "@/lib/api-client"
-import type { Platform, UserAppId, Network, UserPhone } from "@/lib/types"
-import { toast } from "react-hot-toast"
-import { extractTimeErrorMessage } from "@/lib/utils"
-import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
-import { ChevronLeft, Copy, ArrowLeft } from "lucide-react"
-import Link from "next/link"
-import { TransactionSummaryDialog } from "@/components/transaction/transaction-summary-dialog"
-import type { Transaction } from "@/lib/types"
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog"
+import { TransactionWizard } from "@/components/transaction/transaction-wizard"
+import { depositFlow } from "@/components/transaction/flows/deposit-flow"
 
 export default function DepositPage() {
   const router = useRouter()
   const { user } = useAuth()
-  // Step management
-  const [currentStep, setCurrentStep] = useState(1)
-  const totalSteps = 5
-
-  // ── Pending transaction check (on mount) ─────────────────────────────────
-  const [pendingTransaction, setPendingTransaction] = useState<Transaction | null>(null)
-  const [isPendingCheckDone, setIsPendingCheckDone] = useState(false)
-  const [isPendingDialogOpen, setIsPendingDialogOpen] = useState(false)
-
-  // Form data
-  const [selectedPlatform, setSelectedPlatform] = useState<Platform | null>(null)
-  const [selectedBetId, setSelectedBetId] = useState<UserAppId | null>(null)
-  const [selectedNetwork, setSelectedNetwork] = useState<Network | null>(null)
-  const [selectedPhone, setSelectedPhone] = useState<UserPhone | null>(null)
-  const [amount, setAmount] = useState(0)
-
-  // Confirmation dialog
-  const [isConfirmationOpen, setIsConfirmationOpen] = useState(false)
-  const [isSubmitting, setIsSubmitting] = useState(false)
-
-  // Transaction link modal
-  const [isTransactionLinkModalOpen, setIsTransactionLinkModalOpen] = useState(false)
-  const [transactionLink, setTransactionLink] = useState<string | null>(null)
-  const [isMoovUssdModalOpen, setIsMoovUssdModalOpen] = useState(false)
-  const [moovUssdCode, setMoovUssdCode] = useState<string | null>(null)
-  const [moovMerchantPhone, setMoovMerchantPhone] = useState<string | null>(null)
-  const [ussdNetworkName, setUssdNetworkName] = useState<string>("Moov")
 
   // Redirect if not authenticated
   if (!user) {
@@ -66,437 +15,5 @@ export default function DepositPage() {
     return null
   }
 
-  // ── Check pending transaction on mount ───────────────────────────────────
-  useEffect(() => {
-    const checkPendingTransaction = async () => {
-      try {
-        const lastTrans = await transactionApi.getLastTransaction()
-        if (lastTrans && lastTrans.status === "pending" && lastTrans.type_trans === "deposit") {
-          setPendingTransaction(lastTrans)
-          setIsPendingDialogOpen(true)
-        }
-      } catch (error: any) {
-        // 404 = aucune transaction, c'est normal
-        if (error?.originalError?.response?.status !== 404) {
-          console.error("Erreur vérification transaction en attente:", error)
-        }
-      } finally {
-        setIsPendingCheckDone(true)
-      }
-    }
-    checkPendingTransaction()
-  }, [])
-
-  // ── Handlers pending dialog ───────────────────────────────────────────────
-
-  // "Nouveau dépôt" → annule l'ancienne, ferme le dialog, reste sur step 1
-  const handleCancelPendingAndContinue = async (reference: string) => {
-    try {
-      await transactionApi.cancelTransaction(reference)
-      toast.success("Ancienne transaction annulée")
-      setIsPendingDialogOpen(false)
-      setPendingTransaction(null)
-    } catch (error: any) {
-      const errorMessage =
-        error?.originalError?.response?.data?.error ||
-        error?.originalError?.response?.data?.detail ||
-        error?.message ||
-        "Erreur lors de l'annulation de la transaction"
-      toast.error(errorMessage)
-      throw error
-    }
-  }
-
-  // "Finaliser" → finalise l'ancienne, enchaîne le flux post-finalisation
-  const handleFinalizePending = async (reference: string) => {
-    try {
-      const finalizedTransaction = await transactionApi.finalizeTransaction(reference)
-      setIsPendingDialogOpen(false)
-      setPendingTransaction(null)
-      await handlePostFinalization(finalizedTransaction)
-    } catch (error) {
-      throw error
-    }
-  }
-
-  // ── Flux partagé post-finalisation / post-création ────────────────────────
-  const handlePostFinalization = async (data: any) => {
-    if (selectedNetwork?.payment_by_link || data?.transaction_link) {
-      setTransactionLink(data?.transaction_link)
-      setIsTransactionLinkModalOpen(true)
-      return
-    }
-    const handled = await handleUssdFlow(amount, selectedNetwork?.payment_by_link)
-    if (!handled) router.push("/dashboard")
-  }
-
-  // ─────────────────────────────────────────────────────────────────────────
-
-  const handleNext = () => {
-    if (currentStep < totalSteps) {
-      setCurrentStep(currentStep + 1)
-    } else {
-      setIsConfirmationOpen(true)
-    }
-  }
-
-  const handlePrevious = () => {
-    if (currentStep > 1) {
-      setCurrentStep(currentStep - 1)
-    }
-  }
-
-  const attemptDialerRedirect = (ussdCode: string) => {
-    try {
-      const link = document.createElement("a")
-      link.href = `tel:${ussdCode}`
-      link.style.display = "none"
-      document.body.appendChild(link)
-      link.click()
-      setTimeout(() => {
-        if (document.body.contains(link)) {
-          document.body.removeChild(link)
-        }
-      }, 100)
-    } catch (error) {
-      console.error("Impossible d'ouvrir automatiquement le composeur:", error)
-    }
-  }
-
-  const handleUssdFlow = async (amountValue: number, paymentByLink?: boolean) => {
-    if (!selectedNetwork) return false
-
-    const networkName = selectedNetwork.name?.toLowerCase()
-
-    if (networkName !== "moov" && networkName !== "orange") return false
-
-    if (!selectedNetwork.deposit_api || selectedNetwork.deposit_api.toLowerCase() !== "connect") {
-      return false
-    }
-
-    // Pour Orange : si payment_by_link est true, ne pas utiliser le flux USSD
-    if (networkName === "orange" && paymentByLink === true) return false
-
-    try {
-      const settings = await settingsApi.get()
-
-      const isBurkinaFaso = selectedNetwork.country_code?.toLowerCase() === "bf"
-      let merchantPhone: string | undefined
-
-      if (networkName === "moov") {
-        merchantPhone = isBurkinaFaso ? settings.bf_moov_marchand_phone : settings.moov_marchand_phone
-      } else {
-        merchantPhone = isBurkinaFaso ? settings.bf_orange_marchand_phone : settings.orange_marchand_phone
-      }
-
-      if (!merchantPhone) return false
-
-      const ussdAmount = Math.max(1, Math.floor(amountValue * 0.99))
-      let ussdCode: string
-
-      if (networkName === "moov") {
-        ussdCode = `*155*2*1*${merchantPhone}*${ussdAmount}#`
-        setUssdNetworkName("Moov")
-      } else {
-        ussdCode = `*144*2*1*${merchantPhone}*${ussdAmount}#`
-        setUssdNetworkName("Orange")
-      }
-
-      setMoovMerchantPhone(merchantPhone)
-      setMoovUssdCode(ussdCode)
-      setIsMoovUssdModalOpen(true)
-      attemptDialerRedirect(ussdCode)
-      return true
-    } catch (error) {
-      console.error("Erreur lors de la récupération des paramètres USSD:", error)
-      return false
-    }
-  }
-
-  const handleCopyUssdCode = async () => {
-    if (!moovUssdCode) return
-    try {
-      await navigator.clipboard.writeText(moovUssdCode)
-      toast.success("Code USSD copié")
-    } catch (error) {
-      toast.error("Copie impossible, copiez manuellement le code.")
-    }
-  }
-
-  // ✅ Point 3 : fermer le modal USSD redirige vers dashboard
-  const handleMoovModalClose = (open: boolean) => {
-    if (!open) {
-      setIsMoovUssdModalOpen(false)
-      router.push("/dashboard")
-    } else {
-      setIsMoovUssdModalOpen(true)
-    }
-  }
-
-  // ── Point 2 : plus de dialog de résumé post-création ─────────────────────
-  const handleConfirmTransaction = async () => {
-    if (!selectedPlatform || !selectedBetId || !selectedNetwork || !selectedPhone) {
-      toast.error("Données manquantes pour la transaction")
-      return
-    }
-
-    setIsSubmitting(true)
-    try {
-      const response = await transactionApi.createDeposit({
-        amount,
-        phone_number: selectedPhone.phone,
-        app: selectedPlatform.id,
-        user_app_id: selectedBetId.user_app_id,
-        network: selectedNetwork.id,
-        source: "web",
-      })
-
-      setIsConfirmationOpen(false)
-      toast.success("Dépôt initié avec succès!")
-      await handlePostFinalization(response)
-    } catch (error: any) {
-      const timeErrorMessage = extractTimeErrorMessage(error)
-      if (timeErrorMessage) {
-        toast.error(timeErrorMessage)
-      } else {
-        toast.error("Erreur lors de la création du dépôt")
-      }
-    } finally {
-      setIsSubmitting(false)
-    }
-  }
-
-  const handleContinueTransaction = async () => {
-    if (transactionLink) {
-      window.open(transactionLink, "_blank", "noopener,noreferrer")
-      setIsTransactionLinkModalOpen(false)
-      setTransactionLink(null)
-      router.push("/dashboard")
-    }
-  }
-
-  const isStepValid = () => {
-    switch (currentStep) {
-      case 1: return selectedPlatform !== null
-      case 2: return selectedBetId !== null
-      case 3: return selectedNetwork !== null
-      case 4: return selectedPhone !== null
-      case 5:
-        return amount > 0 && selectedPlatform &&
-          amount >= selectedPlatform.minimun_deposit &&
-          amount <= selectedPlatform.max_deposit
-      default: return false
-    }
-  }
-
-  const renderCurrentStep = () => {
-    switch (currentStep) {
-      case 1:
-        return (
-          <PlatformStep
-            selectedPlatform={selectedPlatform}
-            onSelect={setSelectedPlatform}
-            onNext={handleNext}
-            type="deposit"
-          />
-        )
-      case 2:
-        return (
-          <BetIdStep
-            selectedPlatform={selectedPlatform}
-            selectedBetId={selectedBetId}
-            onSelect={setSelectedBetId}
-            onNext={handleNext}
-          />
-        )
-      case 3:
-        return (
-          <NetworkStep
-            selectedNetwork={selectedNetwork}
-            onSelect={setSelectedNetwork}
-            onNext={handleNext}
-            type="deposit"
-          />
-        )
-      case 4:
-        return (
-          <PhoneStep
-            selectedNetwork={selectedNetwork}
-            selectedPhone={selectedPhone}
-            onSelect={setSelectedPhone}
-            onNext={handleNext}
-          />
-        )
-      case 5:
-        return (
-          <AmountStep
-            amount={amount}
-            setAmount={setAmount}
-            withdriwalCode=""
-            setWithdriwalCode={() => {}}
-            selectedPlatform={selectedPlatform}
-            selectedBetId={selectedBetId}
-            selectedNetwork={selectedNetwork}
-            selectedPhone={selectedPhone}
-            type="deposit"
-            onNext={handleNext}
-          />
-        )
-      default:
-        return null
-    }
-  }
-
-  // ── Spinner pendant le check initial ─────────────────────────────────────
-  if (!isPendingCheckDone) {
-    return (
-      <div className="max-w-4xl mx-auto w-full px-3 sm:px-4 lg:px-6 flex items-center justify-center min-h-100">
-        <div className="flex flex-col items-center gap-3 text-muted-foreground">
-          <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
-          <p className="text-sm">Vérification en cours...</p>
-        </div>
-      </div>
-    )
-  }
-
-  return (
-    <div className="max-w-4xl mx-auto w-full px-3 sm:px-4 lg:px-6">
-      <div className="space-y-4 sm:space-y-5 lg:space-y-6">
-        {/* Header */}
-        <div className="pb-2 border-b border-border/50">
-          <div className="flex items-center gap-3 mb-2">
-            <Button asChild variant="ghost" size="icon" className="h-8 w-8 sm:h-9 sm:w-9">
-              <Link href="/dashboard">
-                <ArrowLeft className="h-4 w-4" />
-              </Link>
-            </Button>
-            <div className="flex-1">
-              <h1 className="text-xl sm:text-2xl lg:text-3xl font-semibold tracking-tight">Effectuer un dépôt</h1>
-              <p className="text-xs sm:text-sm text-muted-foreground mt-1">Remplissez les informations pour effectuer votre dépôt</p>
-            </div>
-          </div>
-        </div>
-
-        {/* Progress Bar */}
-        <TransactionProgressBar
-          currentStep={currentStep}
-          totalSteps={totalSteps}
-          type="deposit"
-        />
-
-        {/* Current Step */}
-        <div className="min-h-70 sm:min-h-80 lg:min-h-100 overflow-x-hidden">
-          {renderCurrentStep()}
-        </div>
-
-        {/* Navigation */}
-        {currentStep > 1 && currentStep <= 5 && (
-          <div className="flex justify-start pt-2 sm:pt-3">
-            <Button variant="outline" onClick={handlePrevious} className="flex items-center gap-2 h-9 sm:h-10 text-sm">
-              <ChevronLeft className="h-4 w-4" />
-              <span>Précédent</span>
-            </Button>
-          </div>
-        )}
-
-        {/* Confirmation Dialog */}
-        <ConfirmationDialog
-          isOpen={isConfirmationOpen}
-          onClose={() => setIsConfirmationOpen(false)}
-          onConfirm={handleConfirmTransaction}
-          transactionData={{
-            amount,
-            phone_number: selectedPhone?.phone || "",
-            app: selectedPlatform?.id || "",
-            user_app_id: selectedBetId?.user_app_id || "",
-            network: selectedNetwork?.id || 0,
-          }}
-          type="deposit"
-          platformName={selectedPlatform?.name || ""}
-          networkName={selectedNetwork?.public_name || ""}
-          isLoading={isSubmitting}
-        />
-
-        {/* Transaction Link Modal */}
-        <Dialog open={isTransactionLinkModalOpen} onOpenChange={setIsTransactionLinkModalOpen}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Continuer la transaction</DialogTitle>
-              <DialogDescription>
-                Cliquez sur continuer pour continuer la transaction
-              </DialogDescription>
-            </DialogHeader>
-            <DialogFooter>
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setIsTransactionLinkModalOpen(false)
-                  setTransactionLink(null)
-                  router.push("/dashboard")
-                }}
-              >
-                Annuler
-              </Button>
-              <Button onClick={handleContinueTransaction}>Continuer</Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
-
-        {/* USSD fallback modal (Moov/Orange) */}
-        {/* ✅ Point 3 : onOpenChange + bouton "J'ai compris" redirigent vers dashboard */}
-        <Dialog open={isMoovUssdModalOpen} onOpenChange={handleMoovModalClose}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Finaliser la transaction {ussdNetworkName}</DialogTitle>
-              <DialogDescription asChild>
-                <div className="text-sm text-muted-foreground space-y-2">
-                  <p>
-                    Nous n&apos;avons pas pu ouvrir automatiquement le composeur téléphonique. Copiez le code ci-dessous et collez-le dans l&apos;application Téléphone pour terminer votre transaction {ussdNetworkName}.
-                  </p>
-                  {moovMerchantPhone && (
-                    <p>
-                      <span className="font-semibold text-foreground">Numéro marchand&nbsp;:</span> {moovMerchantPhone}
-                    </p>
-                  )}
-                  {moovUssdCode ? (
-                    <div className="space-y-1">
-                      <p className="font-semibold text-foreground">Code USSD à composer :</p>
-                      <div className="flex items-center gap-2">
-                        <Input value={moovUssdCode} readOnly className="font-mono text-sm" />
-                        <Button variant="outline" size="icon" onClick={handleCopyUssdCode}>
-                          <Copy className="h-4 w-4" />
-                          <span className="sr-only">Copier le code</span>
-                        </Button>
-                      </div>
-                      <p className="text-xs text-muted-foreground">
-                        Collez ce code dans votre composeur téléphonique et validez pour poursuivre.
-                      </p>
-                    </div>
-                  ) : (
-                    <p className="text-destructive text-sm">
-                      Impossible de générer le code USSD automatiquement. Veuillez réessayer ou contacter le support.
-                    </p>
-                  )}
-                </div>
-              </DialogDescription>
-            </DialogHeader>
-            <DialogFooter>
-              <Button onClick={() => handleMoovModalClose(false)}>J&apos;ai compris</Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
-
-        {/* ── Pending transaction dialog (au chargement) ── */}
-        <TransactionSummaryDialog
-          isOpen={isPendingDialogOpen}
-          onClose={() => {}} // bloqué — l'utilisateur doit choisir
-          transaction={pendingTransaction}
-          onCancel={handleCancelPendingAndContinue}
-          onFinalize={handleFinalizePending}
-          isLoading={false}
-          mode="pending"
-        />
-      </div>
-    </div>
-  )
-}
\ No newline at end of file
+  return <TransactionWizard flow={depositFlow} />
+}
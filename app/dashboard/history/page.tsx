@@ -1,81 +1,228 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
 import { useAuth } from "@/lib/auth-context"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Loader2, Search, Filter, RefreshCw } from "lucide-react"
-import { transactionApi } from "@/lib/api-client"
-import type { Transaction } from "@/lib/types"
+import { Loader2, Search, Filter, RefreshCw, Download, Printer, FileSpreadsheet, CalendarIcon } from "lucide-react"
+import { networkApi, transactionApi } from "@/lib/api-client"
+import type { Network, Transaction } from "@/lib/types"
+import { SOURCE_CHOICE } from "@/lib/constants"
 import { toast } from "react-hot-toast"
 import { format } from "date-fns"
 import { fr } from "date-fns/locale"
 import { formatPhoneNumberForDisplay } from "@/lib/utils"
+import { TransactionStatusBadge } from "@/components/transaction/transaction-status-badge"
+import { TransactionDetailSheet } from "@/components/transaction/transaction-detail-sheet"
+import { RepeatTransactionButton } from "@/components/transaction/repeat-transaction-button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  buildStatementHtml,
+  downloadCsv,
+  openStatementWindow,
+  printStatement,
+  transactionsToCsv,
+} from "@/lib/statement"
+import {
+  DATE_PRESETS,
+  getDateRange,
+  parseHistoryFilters,
+  serializeHistoryFilters,
+  toHistoryParams,
+  type DatePreset,
+  type HistoryFilterState,
+} from "@/lib/history-filters"
+import { useTransactionHistory, saveHistorySnapshot } from "@/hooks/use-transaction-history"
+import { useWindowVirtualizer } from "@/hooks/use-window-virtualizer"
+import { usePullToRefresh } from "@/hooks/use-pull-to-refresh"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Calendar } from "@/components/ui/calendar"
 
 export default function TransactionHistoryPage() {
   const { user } = useAuth()
-  const [transactions, setTransactions] = useState<Transaction[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [currentPage, setCurrentPage] = useState(1)
-  const [totalPages, setTotalPages] = useState(1)
-  const [totalCount, setTotalCount] = useState(0)
-  
-  // Filters
-  const [searchTerm, setSearchTerm] = useState("")
-  const [typeFilter, setTypeFilter] = useState<"all" | "deposit" | "withdrawal">("all")
-  const [statusFilter, setStatusFilter] = useState<"all" | "pending" | "accept" | "reject" | "timeout">("all")
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const [networks, setNetworks] = useState<Network[]>([])
 
-  useEffect(() => {
-    fetchTransactions()
-  }, [currentPage, searchTerm, typeFilter, statusFilter])
+  // Filters are read from the URL, see lib/history-filters.ts
+  const queryString = searchParams.toString()
+  const filters = useMemo(() => parseHistoryFilters(new URLSearchParams(queryString)), [queryString])
+  // Typed search is pushed to the URL once the user pauses
+  const [searchInput, setSearchInput] = useState(filters.search)
+  const [isCustomRangeOpen, setIsCustomRangeOpen] = useState(false)
+
+  const {
+    transactions,
+    next,
+    count: totalCount,
+    matchingCount,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    loadMore,
+    refresh,
+    restored,
+  } = useTransactionHistory(user?.id, queryString, toHistoryParams(filters))
+  const { pullDistance, isRefreshing, isPastThreshold } = usePullToRefresh(refresh)
+
+  const virtualizer = useWindowVirtualizer({
+    count: transactions.length,
+    getItemKey: (index) => String(transactions[index].id),
+    estimateSize: 170,
+    initialMeasurements: restored?.measurements,
+  })
+  const loadMoreRef = useRef<HTMLDivElement | null>(null)
+  const scrollYRef = useRef(0)
+
+  // Detail sheet
+  const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null)
+  const [isDetailOpen, setIsDetailOpen] = useState(false)
+
+  const openDetail = (transaction: Transaction) => {
+    setSelectedTransaction(transaction)
+    setIsDetailOpen(true)
+  }
+
+  const updateFilters = (changes: Partial<HistoryFilterState>) => {
+    const query = serializeHistoryFilters({ ...filters, ...changes })
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }
 
   // Refetch data when the page gains focus to ensure fresh data
   useEffect(() => {
-    const handleFocus = () => {
-      fetchTransactions()
+    window.addEventListener('focus', refresh)
+    return () => window.removeEventListener('focus', refresh)
+  }, [refresh])
+
+  // Load the next page when the end of the list comes into view. An empty list still waiting on
+  // older pages, which a date range can produce, loads them from its own button instead.
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !hasMore || transactions.length === 0) return
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore()
+      },
+      { rootMargin: "600px 0px" },
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore, transactions.length])
+
+  // Put the scroll position back when the list was restored after visiting a detail page
+  useEffect(() => {
+    if (!restored) return
+    const frame = requestAnimationFrame(() => window.scrollTo(0, restored.scrollY))
+    return () => cancelAnimationFrame(frame)
+  }, [restored])
+
+  useEffect(() => {
+    const handleScroll = () => {
+      scrollYRef.current = window.scrollY
+    }
+    window.addEventListener("scroll", handleScroll, { passive: true })
+    return () => window.removeEventListener("scroll", handleScroll)
+  }, [])
+
+  // Saved on the way out, so navigating back to this list resumes where the user was
+  const latestListRef = useRef({ userId: user?.id, queryString, transactions, next, totalCount })
+  latestListRef.current = { userId: user?.id, queryString, transactions, next, totalCount }
+  useEffect(() => {
+    return () => {
+      const list = latestListRef.current
+      if (!list.userId || list.transactions.length === 0) return
+      saveHistorySnapshot({
+        userId: list.userId,
+        query: list.queryString,
+        transactions: list.transactions,
+        next: list.next,
+        count: list.totalCount,
+        scrollY: scrollYRef.current,
+        measurements: virtualizer.getMeasurements(),
+      })
     }
-    window.addEventListener('focus', handleFocus)
-    return () => window.removeEventListener('focus', handleFocus)
   }, [])
 
-  const fetchTransactions = async () => {
-    setIsLoading(true)
+  // Keep the input in sync when the URL changes from outside (back/forward, cleared filters)
+  useEffect(() => {
+    setSearchInput(filters.search)
+  }, [filters.search])
+
+  useEffect(() => {
+    if (searchInput === filters.search) return
+    const timeout = setTimeout(() => updateFilters({ search: searchInput }), 400)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  useEffect(() => {
+    networkApi
+      .getAll(undefined, { silent: true })
+      .then(setNetworks)
+      .catch((error) => console.error("Erreur chargement réseaux:", error))
+  }, [])
+
+  const [isRefreshingList, setIsRefreshingList] = useState(false)
+
+  const handleRefresh = async () => {
+    setIsRefreshingList(true)
     try {
-      const params: any = {
-        page: currentPage,
-        page_size: 10,
-      }
-      
-      if (searchTerm) params.search = searchTerm
-      if (typeFilter !== "all") params.type_trans = typeFilter
-      if (statusFilter !== "all") params.status = statusFilter
-      
-      const data = await transactionApi.getHistory(params)
-      setTransactions(data.results)
-      setTotalCount(data.count)
-      setTotalPages(Math.ceil(data.count / 10))
-    } catch (error) {
-      toast.error("Erreur lors du chargement de l'historique")
+      await refresh()
     } finally {
-      setIsLoading(false)
+      setIsRefreshingList(false)
     }
   }
 
-  const getStatusBadge = (status: Transaction["status"]) => {
-    const statusConfig: Record<string, { variant: "default" | "secondary" | "destructive" | "outline"; label: string }> = {
-      pending: { variant: "secondary", label: "En attente" },
-      accept: { variant: "default", label: "Accepté" },
-      init_payment: { variant: "secondary", label: "En attente" },
-      error: { variant: "destructive", label: "Erreur" },
-      reject: { variant: "destructive", label: "Rejeté" },
-      timeout: { variant: "outline", label: "Expiré" },
+  // Export
+  const [isExporting, setIsExporting] = useState(false)
+
+  const handleExport = async (exportFormat: "csv" | "print") => {
+    if (!user || isExporting) return
+
+    // Opened before any await, otherwise the browser blocks it
+    const printWindow = exportFormat === "print" ? openStatementWindow() : null
+    if (exportFormat === "print" && !printWindow) {
+      toast.error("Autorisez les fenêtres pop-up pour générer le relevé")
+      return
+    }
+
+    setIsExporting(true)
+    try {
+      const { transactions: allTransactions, truncated } = await transactionApi.getAllHistory(toHistoryParams(filters))
+      if (allTransactions.length === 0) {
+        printWindow?.close()
+        toast.error("Aucune transaction à exporter")
+        return
+      }
+
+      if (printWindow) {
+        // A truncated statement shows the period it really covers rather than the filtered one
+        const range = truncated ? null : getDateRange(filters)
+        printStatement(printWindow, buildStatementHtml(user, allTransactions, range))
+      } else {
+        downloadCsv(`transactions-${format(new Date(), "yyyy-MM-dd")}.csv`, transactionsToCsv(allTransactions))
+        toast.success("Export CSV téléchargé")
+      }
+      if (truncated) {
+        toast.error(
+          `Export limité aux ${allTransactions.length} transactions les plus récentes : réduisez la période pour obtenir le reste`,
+        )
+      }
+    } catch (error) {
+      printWindow?.close()
+      toast.error("Erreur lors de l'export de l'historique")
+    } finally {
+      setIsExporting(false)
     }
-    
-    const config = statusConfig[status] || { variant: "outline" as const, label: status }
-    return <Badge variant={config.variant}>{config.label}</Badge>
   }
 
   const getTypeBadge = (type: Transaction["type_trans"]) => {
@@ -86,27 +233,12 @@ export default function TransactionHistoryPage() {
     )
   }
 
-  const handleSearch = (value: string) => {
-    setSearchTerm(value)
-    setCurrentPage(1)
-  }
-
-  const handleFilterChange = (filterType: string, value: string) => {
-    if (filterType === "type") {
-      setTypeFilter(value as any)
-    } else if (filterType === "status") {
-      setStatusFilter(value as any)
-    }
-    setCurrentPage(1)
-  }
-
   const clearFilters = () => {
-    setSearchTerm("")
-    setTypeFilter("all")
-    setStatusFilter("all")
-    setCurrentPage(1)
+    router.replace(pathname, { scroll: false })
   }
 
+  const customRange = filters.preset === "custom" ? getDateRange(filters) : null
+
   if (!user) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -117,6 +249,15 @@ export default function TransactionHistoryPage() {
 
   return (
     <div className="max-w-6xl mx-auto">
+      {/* Pull-to-refresh indicator */}
+      {(pullDistance > 0 || isRefreshing) && (
+        <div className="flex justify-center overflow-hidden transition-[height]" style={{ height: pullDistance }}>
+          <RefreshCw
+            className={`h-5 w-5 self-center text-muted-foreground ${isRefreshing ? "animate-spin" : ""} ${isPastThreshold ? "text-primary" : ""}`}
+            style={isRefreshing ? undefined : { transform: `rotate(${pullDistance * 3}deg)` }}
+          />
+        </div>
+      )}
       <div className="space-y-4 sm:space-y-6 lg:space-y-8">
         {/* Header */}
         <div className="space-y-2">
@@ -140,13 +281,13 @@ export default function TransactionHistoryPage() {
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
                 <Input
                   placeholder="Rechercher..."
-                  value={searchTerm}
-                  onChange={(e) => handleSearch(e.target.value)}
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   className="pl-10 h-10 sm:h-9 text-base sm:text-sm"
                 />
               </div>
               
-              <Select value={typeFilter} onValueChange={(value) => handleFilterChange("type", value)}>
+              <Select value={filters.type} onValueChange={(value) => updateFilters({ type: value as HistoryFilterState["type"] })}>
                 <SelectTrigger className="h-10 sm:h-9 text-base sm:text-sm">
                   <SelectValue placeholder="Type" />
                 </SelectTrigger>
@@ -157,7 +298,7 @@ export default function TransactionHistoryPage() {
                 </SelectContent>
               </Select>
               
-              <Select value={statusFilter} onValueChange={(value) => handleFilterChange("status", value)}>
+              <Select value={filters.status} onValueChange={(value) => updateFilters({ status: value as HistoryFilterState["status"] })}>
                 <SelectTrigger className="h-10 sm:h-9 text-base sm:text-sm">
                   <SelectValue placeholder="Statut" />
                 </SelectTrigger>
@@ -169,7 +310,89 @@ export default function TransactionHistoryPage() {
                   <SelectItem value="timeout">Expiré</SelectItem>
                 </SelectContent>
               </Select>
-              
+
+              <Select
+                value={filters.network ? String(filters.network) : "all"}
+                onValueChange={(value) => updateFilters({ network: value === "all" ? null : Number(value) })}
+              >
+                <SelectTrigger className="h-10 sm:h-9 text-base sm:text-sm">
+                  <SelectValue placeholder="Réseau" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tous les réseaux</SelectItem>
+                  {networks.map((network) => (
+                    <SelectItem key={network.id} value={String(network.id)}>
+                      {network.public_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={filters.source ?? "all"}
+                onValueChange={(value) => updateFilters({ source: value === "all" ? null : value })}
+              >
+                <SelectTrigger className="h-10 sm:h-9 text-base sm:text-sm">
+                  <SelectValue placeholder="Source" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Toutes les sources</SelectItem>
+                  {SOURCE_CHOICE.map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={filters.preset}
+                onValueChange={(value) => {
+                  const preset = value as DatePreset
+                  updateFilters({ preset, from: null, to: null })
+                  if (preset === "custom") setIsCustomRangeOpen(true)
+                }}
+              >
+                <SelectTrigger className="h-10 sm:h-9 text-base sm:text-sm">
+                  <SelectValue placeholder="Période" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_PRESETS.map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {filters.preset === "custom" && (
+                <Popover open={isCustomRangeOpen} onOpenChange={setIsCustomRangeOpen}>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="h-10 sm:h-9 text-sm justify-start font-normal">
+                      <CalendarIcon className="h-4 w-4" />
+                      {customRange
+                        ? `${format(customRange.from, "dd/MM/yyyy")} - ${format(customRange.to, "dd/MM/yyyy")}`
+                        : "Choisir les dates"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="range"
+                      locale={fr}
+                      numberOfMonths={1}
+                      disabled={{ after: new Date() }}
+                      selected={customRange ? { from: customRange.from, to: customRange.to } : undefined}
+                      onSelect={(range) =>
+                        updateFilters({
+                          from: range?.from ? format(range.from, "yyyy-MM-dd") : null,
+                          to: range?.to ? format(range.to, "yyyy-MM-dd") : null,
+                        })
+                      }
+                    />
+                  </PopoverContent>
+                </Popover>
+              )}
+
               <Button variant="outline" onClick={clearFilters} className="h-10 sm:h-9 text-sm">
                 Effacer
               </Button>
@@ -181,17 +404,42 @@ export default function TransactionHistoryPage() {
         <Card className="shadow-md">
           <CardHeader className="p-5 sm:p-6 bg-gradient-to-br from-muted/30 to-muted/10">
             <CardTitle className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 text-lg sm:text-xl">
-              <span>Transactions ({totalCount})</span>
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={fetchTransactions}
-                disabled={isLoading}
-                className="h-9 w-9 sm:h-10 sm:w-auto p-0 sm:px-4 self-start sm:self-auto border-2 hover:bg-muted/50 transition-all"
-              >
-                <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
-                <span className="hidden sm:inline ml-2">Actualiser</span>
-              </Button>
+              <span>Transactions{matchingCount !== null && ` (${matchingCount})`}</span>
+              <div className="flex gap-2 self-start sm:self-auto">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isExporting || matchingCount === 0}
+                      className="h-9 w-9 sm:h-10 sm:w-auto p-0 sm:px-4 border-2 hover:bg-muted/50 transition-all"
+                    >
+                      {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                      <span className="hidden sm:inline ml-2">Exporter</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => handleExport("csv")}>
+                      <FileSpreadsheet className="h-4 w-4" />
+                      Fichier CSV
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport("print")}>
+                      <Printer className="h-4 w-4" />
+                      Imprimer le relevé
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={handleRefresh}
+                  disabled={isLoading || isRefreshingList}
+                  className="h-9 w-9 sm:h-10 sm:w-auto p-0 sm:px-4 border-2 hover:bg-muted/50 transition-all"
+                >
+                  <RefreshCw className={`h-4 w-4 ${isLoading || isRefreshingList ? 'animate-spin' : ''}`} />
+                  <span className="hidden sm:inline ml-2">Actualiser</span>
+                </Button>
+              </div>
             </CardTitle>
           </CardHeader>
           <CardContent className="p-5 sm:p-6 pt-5">
@@ -199,6 +447,13 @@ export default function TransactionHistoryPage() {
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="h-8 w-8 animate-spin" />
               </div>
+            ) : transactions.length === 0 && hasMore ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">Aucune transaction trouvée pour le moment</p>
+                <Button variant="outline" size="sm" className="mt-3" onClick={loadMore} disabled={isLoadingMore}>
+                  Rechercher dans les transactions plus anciennes
+                </Button>
+              </div>
             ) : transactions.length === 0 ? (
               <div className="text-center py-12">
                 <p className="text-muted-foreground">Aucune transaction trouvée</p>
@@ -207,82 +462,99 @@ export default function TransactionHistoryPage() {
                 </p>
               </div>
             ) : (
-              <div className="space-y-3 sm:space-y-4">
-                {transactions.map((transaction) => (
-                  <Card key={transaction.id} className="hover:shadow-lg transition-all duration-200 border-l-4 border-l-transparent hover:border-l-primary">
-                    <CardContent className="p-4 sm:p-5 lg:p-6">
-                      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 sm:gap-4">
-                        <div className="flex-1 min-w-0 space-y-2">
-                          <div className="flex flex-wrap items-center gap-2">
-                            <h3 className="font-semibold text-sm sm:text-base">#{transaction.reference}</h3>
-                            {getTypeBadge(transaction.type_trans)}
-                            {getStatusBadge(transaction.status)}
-                          </div>
-                          <div className="text-xs sm:text-sm text-muted-foreground space-y-1">
-                            <p className="truncate">Plateforme: {transaction.app}</p>
-                            <p className="truncate">ID de pari: {transaction.user_app_id}</p>
-                            <p className="truncate">Téléphone: {formatPhoneNumberForDisplay(transaction.phone_number)}</p>
-                            {transaction.withdriwal_code && (
-                              <p className="truncate">Code de retrait: {transaction.withdriwal_code}</p>
-                            )}
+              <div
+                ref={virtualizer.containerRef}
+                className="relative"
+                style={{ height: virtualizer.totalSize }}
+              >
+                {virtualizer.items.map(({ key, index, start }) => {
+                  const transaction = transactions[index]
+                  return (
+                    <div
+                      key={key}
+                      data-key={key}
+                      ref={virtualizer.measureElement}
+                      className="absolute inset-x-0 top-0 pb-3 sm:pb-4"
+                      style={{ transform: `translateY(${start}px)` }}
+                    >
+                      <Card
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => openDetail(transaction)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" || e.key === " ") {
+                            e.preventDefault()
+                            openDetail(transaction)
+                          }
+                        }}
+                        className="cursor-pointer hover:shadow-lg transition-all duration-200 border-l-4 border-l-transparent hover:border-l-primary focus-visible:outline-none focus-visible:border-l-primary"
+                      >
+                        <CardContent className="p-4 sm:p-5 lg:p-6">
+                          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 sm:gap-4">
+                            <div className="flex-1 min-w-0 space-y-2">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <h3 className="font-semibold text-sm sm:text-base">#{transaction.reference}</h3>
+                                {getTypeBadge(transaction.type_trans)}
+                                <TransactionStatusBadge status={transaction.status} />
+                              </div>
+                              <div className="text-xs sm:text-sm text-muted-foreground space-y-1">
+                                <p className="truncate">Plateforme: {transaction.app}</p>
+                                <p className="truncate">ID de pari: {transaction.user_app_id}</p>
+                                <p className="truncate">Téléphone: {formatPhoneNumberForDisplay(transaction.phone_number)}</p>
+                                {transaction.withdriwal_code && (
+                                  <p className="truncate">Code de retrait: {transaction.withdriwal_code}</p>
+                                )}
+                              </div>
+                            </div>
+                            <div className="text-left sm:text-right flex-shrink-0 space-y-2">
+                              <p className="text-base sm:text-lg font-semibold">
+                                {transaction.amount.toLocaleString("fr-FR", {
+                                  style: "currency",
+                                  currency: "XOF",
+                                  minimumFractionDigits: 0,
+                                })}
+                              </p>
+                              <p className="text-xs sm:text-sm text-muted-foreground">
+                                {format(new Date(transaction.created_at), "dd MMM yyyy à HH:mm", {
+                                  locale: fr,
+                                })}
+                              </p>
+                              {transaction.error_message && (
+                                <p className="text-xs sm:text-sm text-red-500 break-words">
+                                  Erreur: {transaction.error_message}
+                                </p>
+                              )}
+                              <RepeatTransactionButton transaction={transaction} className="h-8 text-xs" />
+                            </div>
                           </div>
-                        </div>
-                        <div className="text-left sm:text-right flex-shrink-0 space-y-2">
-                          <p className="text-base sm:text-lg font-semibold">
-                            {transaction.amount.toLocaleString("fr-FR", {
-                              style: "currency",
-                              currency: "XOF",
-                              minimumFractionDigits: 0,
-                            })}
-                          </p>
-                          <p className="text-xs sm:text-sm text-muted-foreground">
-                            {format(new Date(transaction.created_at), "dd MMM yyyy à HH:mm", {
-                              locale: fr,
-                            })}
-                          </p>
-                          {transaction.error_message && (
-                            <p className="text-xs sm:text-sm text-red-500 break-words">
-                              Erreur: {transaction.error_message}
-                            </p>
-                          )}
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                        </CardContent>
+                      </Card>
+                    </div>
+                  )
+                })}
               </div>
             )}
 
-            {/* Pagination */}
-            {totalPages > 1 && (
-              <div className="flex flex-col sm:flex-row items-center justify-between gap-3 sm:gap-0 mt-4 sm:mt-6">
-                <p className="text-xs sm:text-sm text-muted-foreground text-center sm:text-left">
-                  Page {currentPage} sur {totalPages} ({totalCount} transactions)
-                </p>
-                <div className="flex gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(currentPage - 1)}
-                    disabled={currentPage === 1}
-                    className="h-9 text-xs sm:text-sm"
-                  >
-                    Précédent
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(currentPage + 1)}
-                    disabled={currentPage === totalPages}
-                    className="h-9 text-xs sm:text-sm"
-                  >
-                    Suivant
-                  </Button>
-                </div>
+            {/* Infinite scroll */}
+            <div ref={loadMoreRef} />
+            {isLoadingMore && (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin" />
               </div>
             )}
+            {!isLoading && !hasMore && transactions.length > 0 && (
+              <p className="text-center text-xs sm:text-sm text-muted-foreground pt-2">
+                {transactions.length} transaction{transactions.length > 1 ? "s" : ""} affichée{transactions.length > 1 ? "s" : ""}
+              </p>
+            )}
           </CardContent>
         </Card>
+
+        <TransactionDetailSheet
+          transaction={selectedTransaction}
+          open={isDetailOpen}
+          onOpenChange={setIsDetailOpen}
+        />
       </div>
     </div>
   )
@@ -1,6 +1,6 @@
 "use client"
 
-import React, { useEffect, useState } from "react"
+import React, { useEffect } from "react"
 import { useRouter, usePathname } from "next/navigation"
 import Link from "next/link"
 import { useAuth } from "@/lib/auth-context"
@@ -14,31 +14,17 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { LogOut, User, Loader2, Bell, Gift } from "lucide-react"
+import { LogOut, User, Loader2, Bell, Gift, BarChart3 } from "lucide-react"
 import { ThemeToggle } from "@/components/theme-toggle"
 import Image from "next/image"
-import { settingsApi } from "@/lib/api-client"
+import { useSettings } from "@/hooks/use-settings"
 import { Footer } from "@/components/footer"
 
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
   const router = useRouter()
   const { user, isLoading, logout } = useAuth()
-  const [referralBonusEnabled, setReferralBonusEnabled] = useState(false)
-
-  useEffect(() => {
-    const fetchSettings = async () => {
-      try {
-        const settings = await settingsApi.get()
-        setReferralBonusEnabled(settings?.referral_bonus === true)
-      } catch (error) {
-        console.error("Error fetching settings:", error)
-        setReferralBonusEnabled(false)
-      }
-    }
-    if (user) {
-      fetchSettings()
-    }
-  }, [user])
+  const { referral } = useSettings()
+  const referralBonusEnabled = referral.enabled
 
   useEffect(() => {
     if (!isLoading && !user) {
@@ -142,6 +128,12 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
                     <User className="mr-2 h-4 w-4" />
                       <span className="text-sm">Profil</span>
                   </Link>
+                </DropdownMenuItem>
+                  <DropdownMenuItem asChild className="cursor-pointer px-3 py-2">
+                  <Link href="/dashboard/analytics" className="flex items-center w-full">
+                    <BarChart3 className="mr-2 h-4 w-4" />
+                      <span className="text-sm">Statistiques</span>
+                  </Link>
                 </DropdownMenuItem>
                   <DropdownMenuSeparator className="my-1" />
                   <DropdownMenuItem 
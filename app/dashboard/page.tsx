@@ -10,10 +10,12 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover"
+import { RepeatTransactionButton } from "@/components/transaction/repeat-transaction-button"
 import { ArrowDownToLine, ArrowUpFromLine, Wallet, Loader2, ArrowRight, RefreshCw, MessageSquare, Send, Download, Ticket, MessageCircleMore } from "lucide-react"
 import Link from "next/link"
 import Image from "next/image"
-import { transactionApi, advertisementApi, settingsApi } from "@/lib/api-client"
+import { transactionApi, advertisementApi } from "@/lib/api-client"
+import { useSettings } from "@/hooks/use-settings"
 import type { Transaction, Advertisement } from "@/lib/types"
 import { toast } from "react-hot-toast"
 import { format } from "date-fns"
@@ -36,8 +38,9 @@ export default function DashboardPage() {
   const [isChatPopoverOpen, setIsChatPopoverOpen] = useState(false)
   const [carouselApi, setCarouselApi] = useState<CarouselApi>()
   const [isCarouselPaused, setIsCarouselPaused] = useState(false)
-  const [whatsappPhone, setWhatsappPhone] = useState<string>("")
-  const [telegramUsername, setTelegramUsername] = useState<string>("")
+  const { supportContacts } = useSettings()
+  const whatsappPhone = supportContacts.whatsappPhone
+  const telegramUsername = supportContacts.telegram
 
   // Prevent browser back button from going to login
   useEffect(() => {
@@ -75,7 +78,7 @@ export default function DashboardPage() {
   const fetchAdvertisement = async () => {
     try {
       setIsLoadingAd(true)
-      const response = await advertisementApi.get()
+      const response = await advertisementApi.get({ silent: true })
       // The API returns a paginated response with results array
       if (response && response.results && Array.isArray(response.results)) {
         // Get all advertisements where enable is true and have an image
@@ -96,25 +99,10 @@ export default function DashboardPage() {
     }
   }
 
-  const fetchSettings = async () => {
-    try {
-      const settings = await settingsApi.get()
-      if (settings.whatsapp_phone) {
-        setWhatsappPhone(settings.whatsapp_phone)
-      }
-      if (settings.telegram) {
-        setTelegramUsername(settings.telegram)
-      }
-    } catch (error) {
-      console.error("Error fetching settings:", error)
-    }
-  }
-
   useEffect(() => {
     if (user) {
       fetchRecentTransactions()
       fetchAdvertisement()
-      fetchSettings()
     }
   }, [user])
 
@@ -432,6 +420,10 @@ export default function DashboardPage() {
                               minimumFractionDigits: 0,
                             })}
                           </p>
+                          <RepeatTransactionButton
+                            transaction={transaction}
+                            className="mt-1.5 h-7 px-2 text-xs"
+                          />
                         </div>
                       </div>
                         </div>
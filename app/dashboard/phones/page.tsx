@@ -21,9 +21,10 @@ import {
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { phoneApi, userAppIdApi, networkApi, platformApi } from "@/lib/api-client"
+import { ApiError } from "@/lib/api"
 import type { UserPhone, UserAppId, Network, Platform } from "@/lib/types"
 import { toast } from "react-hot-toast"
-import { Loader2, Phone, Plus, Trash2, Edit, Smartphone } from "lucide-react"
+import { Loader2, Phone, Plus, Trash2, Edit, Smartphone, Star } from "lucide-react"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -36,6 +37,9 @@ import {
 } from "@/components/ui/alert-dialog"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { formatPhoneNumberForDisplay } from "@/lib/utils"
+import { useAuth } from "@/lib/auth-context"
+import { deleteTemplate, loadTemplates, upsertTemplate, type TransactionTemplate } from "@/lib/templates"
+import { TemplateFormDialog } from "@/components/transaction/template-form-dialog"
 
 const COUNTRY_OPTIONS = [
   { label: "Burkina Faso", value: "bf", prefix: "+226" },
@@ -99,6 +103,7 @@ type PhoneFormData = z.infer<typeof phoneSchema>
 type AppIdFormData = z.infer<typeof appIdSchema>
 
 export default function PhonesPage() {
+  const { user } = useAuth()
   const [isLoading, setIsLoading] = useState(true)
   const [userPhones, setUserPhones] = useState<UserPhone[]>([])
   const [userAppIds, setUserAppIds] = useState<UserAppId[]>([])
@@ -109,7 +114,10 @@ export default function PhonesPage() {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [editingPhone, setEditingPhone] = useState<UserPhone | null>(null)
   const [editingAppId, setEditingAppId] = useState<UserAppId | null>(null)
-  const [deleteTarget, setDeleteTarget] = useState<{ type: "phone" | "appId"; id: number } | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<{ type: "phone" | "appId" | "template"; id: number } | null>(null)
+  const [templates, setTemplates] = useState<TransactionTemplate[]>([])
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false)
+  const [editingTemplate, setEditingTemplate] = useState<TransactionTemplate | null>(null)
   const [selectedCountry, setSelectedCountry] = useState<string>(DEFAULT_COUNTRY_VALUE)
   const [editingCountry, setEditingCountry] = useState<string>(DEFAULT_COUNTRY_VALUE)
   
@@ -133,6 +141,10 @@ export default function PhonesPage() {
     loadData()
   }, [])
 
+  useEffect(() => {
+    if (user) setTemplates(loadTemplates(user.id))
+  }, [user])
+
   // Refetch data when the page gains focus to ensure fresh data
   useEffect(() => {
     const handleFocus = () => {
@@ -216,7 +228,7 @@ export default function PhonesPage() {
     // For new bet IDs, search first
     setIsSearching(true)
     try {
-      const response = await userAppIdApi.searchUser(data.app, data.user_app_id)
+      const response = await userAppIdApi.searchUser(data.app, data.user_app_id, { silent: true })
       
       // Validate user exists
       if (response.UserId === 0) {
@@ -245,22 +257,13 @@ export default function PhonesPage() {
       setIsConfirmationModalOpen(true)
     } catch (error: any) {
       console.error("Search error:", error)
-      // Check for field-specific errors (400 status)
-      if (error.response?.status === 400) {
-        const errorData = error.response.data
-        let errorMsg = "Erreur lors de la recherche"
-        
-        if (errorData.user_app_id) {
-          errorMsg = Array.isArray(errorData.user_app_id) 
-            ? errorData.user_app_id[0] 
-            : errorData.user_app_id
-        } else if (errorData.app) {
-          errorMsg = Array.isArray(errorData.app) 
-            ? errorData.app[0] 
-            : errorData.app
-        } else if (errorData.detail || errorData.error || errorData.message) {
-          errorMsg = errorData.detail || errorData.error || errorData.message
-        }
+      // Check for field-specific validation errors
+      if (error instanceof ApiError && error.kind === "validation") {
+        const errorMsg =
+          error.fieldErrors.user_app_id?.[0] ||
+          error.fieldErrors.app?.[0] ||
+          error.message ||
+          "Erreur lors de la recherche"
         
         setErrorMessage(errorMsg)
       } else {
@@ -277,6 +280,12 @@ export default function PhonesPage() {
     if (!deleteTarget) return
 
     try {
+      if (deleteTarget.type === "template") {
+        if (user) setTemplates(deleteTemplate(user.id, deleteTarget.id))
+        toast.success("Favori supprimé avec succès!")
+        setDeleteTarget(null)
+        return
+      }
       if (deleteTarget.type === "phone") {
         await phoneApi.delete(deleteTarget.id)
         toast.success("Numéro supprimé avec succès!")
@@ -311,6 +320,25 @@ export default function PhonesPage() {
     setIsAppIdDialogOpen(true)
   }
 
+  const handleTemplateSave = (template: Omit<TransactionTemplate, "id"> & { id?: number }) => {
+    if (!user) return
+    setTemplates(upsertTemplate(user.id, template))
+    toast.success(template.id ? "Favori modifié avec succès!" : "Favori ajouté avec succès!")
+  }
+
+  const openTemplateDialog = (template: TransactionTemplate | null) => {
+    setEditingTemplate(template)
+    setIsTemplateDialogOpen(true)
+  }
+
+  const describeTemplate = (template: TransactionTemplate) => {
+    const platform = platforms.find((p) => p.id === template.platformId)?.name ?? "Plateforme inconnue"
+    const betId = userAppIds.find((appId) => appId.id === template.betId)?.user_app_id ?? "ID supprimé"
+    const network = networks.find((n) => n.id === template.networkId)?.public_name ?? "Réseau inconnu"
+    const phone = userPhones.find((p) => p.id === template.phoneId)
+    return `${platform} • ${betId} • ${network} • ${phone ? formatPhoneNumberForDisplay(phone.phone) : "Numéro supprimé"}`
+  }
+
   const closePhoneDialog = () => {
     setIsPhoneDialogOpen(false)
     setEditingPhone(null)
@@ -342,15 +370,8 @@ export default function PhonesPage() {
       console.error("Add bet ID error:", error)
       let errorMsg = "Erreur lors de l'ajout de l'ID de pari"
       
-      if (error.response?.status === 400) {
-        const errorData = error.response.data
-        if (errorData.user_app_id) {
-          errorMsg = Array.isArray(errorData.user_app_id) 
-            ? errorData.user_app_id[0] 
-            : errorData.user_app_id
-        } else if (errorData.detail || errorData.error || errorData.message) {
-          errorMsg = errorData.detail || errorData.error || errorData.message
-        }
+      if (error instanceof ApiError && error.kind === "validation") {
+        errorMsg = error.fieldErrors.user_app_id?.[0] || error.message || errorMsg
       }
       
       toast.error(errorMsg)
@@ -373,6 +394,7 @@ export default function PhonesPage() {
         <TabsList className="w-full sm:w-auto">
           <TabsTrigger value="phones" className="flex-1 sm:flex-initial text-xs sm:text-sm">Numéros</TabsTrigger>
           <TabsTrigger value="appIds" className="flex-1 sm:flex-initial text-xs sm:text-sm">IDs de pari</TabsTrigger>
+          <TabsTrigger value="templates" className="flex-1 sm:flex-initial text-xs sm:text-sm">Favoris</TabsTrigger>
         </TabsList>
 
         {/* Phone Numbers Tab */}
@@ -762,8 +784,80 @@ export default function PhonesPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Templates Tab */}
+        <TabsContent value="templates" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-0 p-4 sm:p-6">
+              <div>
+                <CardTitle className="text-base sm:text-lg">Favoris</CardTitle>
+                <CardDescription className="text-xs sm:text-sm">
+                  Vos combinaisons habituelles, proposées en un clic lors d&apos;un dépôt ou d&apos;un retrait
+                </CardDescription>
+              </div>
+              <Button onClick={() => openTemplateDialog(null)} size="sm" className="w-full sm:w-auto h-9 sm:h-10">
+                <Plus className="mr-2 h-4 w-4" />
+                Ajouter un favori
+              </Button>
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6">
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : templates.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <Star className="h-12 w-12 text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">Aucun favori enregistré</p>
+                  <p className="text-xs sm:text-sm text-muted-foreground mt-1">Ajoutez un favori pour aller plus vite</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {templates.map((template) => (
+                    <Card key={template.id}>
+                      <CardContent className="p-4">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-sm truncate">{template.name}</p>
+                            <p className="text-xs text-muted-foreground mt-1 break-words">{describeTemplate(template)}</p>
+                            {template.amount !== null && (
+                              <Badge variant="outline" className="mt-1.5 text-xs">
+                                {template.amount.toLocaleString()} FCFA
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex gap-2 ml-2">
+                            <Button variant="ghost" size="icon" onClick={() => openTemplateDialog(template)} className="h-9 w-9">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setDeleteTarget({ type: "template", id: template.id })}
+                              className="h-9 w-9"
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
+      <TemplateFormDialog
+        open={isTemplateDialogOpen}
+        onOpenChange={setIsTemplateDialogOpen}
+        template={editingTemplate}
+        data={{ platforms, networks, betIds: userAppIds, phones: userPhones }}
+        onSave={handleTemplateSave}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deleteTarget} onOpenChange={() => setDeleteTarget(null)}>
         <AlertDialogContent>
@@ -771,7 +865,7 @@ export default function PhonesPage() {
             <AlertDialogTitle>Êtes-vous sûr?</AlertDialogTitle>
             <AlertDialogDescription>
               Cette action est irréversible. Cela supprimera définitivement{" "}
-              {deleteTarget?.type === "phone" ? "ce numéro" : "cet ID"}.
+              {deleteTarget?.type === "phone" ? "ce numéro" : deleteTarget?.type === "template" ? "ce favori" : "cet ID"}.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -15,6 +15,7 @@ import Link from "next/link"
 import { authApi } from "@/lib/api-client"
 import type { User } from "@/lib/types"
 import { toast } from "react-hot-toast"
+import { ResponsibleGamblingCard } from "@/components/profile/responsible-gambling-card"
 import { format } from "date-fns"
 import { fr } from "date-fns/locale"
 
@@ -448,6 +449,9 @@ export default function ProfilePage() {
         </CardContent>
       </Card>
 
+      {/* Responsible Gambling Card */}
+      <ResponsibleGamblingCard />
+
       {/* Account Information Card */}
       {profile && (
         <Card className="border-border/50">
@@ -0,0 +1,291 @@
+"use client"
+
+import { Suspense, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { format } from "date-fns"
+import { fr } from "date-fns/locale"
+import { toast } from "react-hot-toast"
+import { ArrowLeft, CheckCircle2, Circle, Loader2, RefreshCw, XCircle, AlertCircle } from "lucide-react"
+import { useTransactionStatus } from "@/hooks/use-transaction-status"
+import { transactionApi } from "@/lib/api-client"
+import { ApiError } from "@/lib/api"
+import { formatPhoneNumberForDisplay } from "@/lib/utils"
+import type { Transaction } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import { TransactionStatusBadge } from "@/components/transaction/transaction-status-badge"
+
+interface TimelineEvent {
+  label: string
+  date: string | null
+  state: "done" | "current" | "failed" | "upcoming"
+}
+
+const formatDate = (date: string) => format(new Date(date), "dd MMM yyyy à HH:mm:ss", { locale: fr })
+
+function getTimeline(transaction: Transaction, isPending: boolean): TimelineEvent[] {
+  const isAccepted = transaction.status === "accept"
+  const lastLabel = isPending
+    ? "Validation"
+    : isAccepted
+      ? "Transaction validée"
+      : "Transaction non aboutie"
+
+  return [
+    { label: "Transaction créée", date: transaction.created_at, state: "done" },
+    {
+      label: "Confirmation de l'opérateur",
+      date: transaction.wehook_receive_at,
+      state: transaction.wehook_receive_at ? "done" : isPending ? "current" : "upcoming",
+    },
+    {
+      label: lastLabel,
+      date: transaction.validated_at,
+      state: isPending
+        ? transaction.wehook_receive_at ? "current" : "upcoming"
+        : isAccepted ? "done" : "failed",
+    },
+  ]
+}
+
+// The reference is read from `?reference=`, see `getTransactionHref`
+export default function TransactionDetailPage() {
+  return (
+    <Suspense fallback={<PageSpinner />}>
+      <TransactionDetailFromQuery />
+    </Suspense>
+  )
+}
+
+function PageSpinner() {
+  return (
+    <div className="flex items-center justify-center py-12">
+      <Loader2 className="h-8 w-8 animate-spin" />
+    </div>
+  )
+}
+
+function TransactionDetailFromQuery() {
+  const reference = useSearchParams().get("reference")
+
+  if (!reference) {
+    return (
+      <div className="max-w-2xl mx-auto w-full px-3 sm:px-4 lg:px-6">
+        <Card>
+          <CardContent className="py-12 text-center space-y-3">
+            <p className="text-muted-foreground">Transaction introuvable</p>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/history">Voir l&apos;historique</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return <TransactionDetail reference={reference} />
+}
+
+function TransactionDetail({ reference }: { reference: string }) {
+  const { transaction, setTransaction, isLoading, isRefreshing, error, lastCheckedAt, isPending, refresh } =
+    useTransactionStatus(reference)
+  const [actionType, setActionType] = useState<"cancel" | "finalize" | null>(null)
+
+  const handleFinalize = async () => {
+    setActionType("finalize")
+    try {
+      const finalized = await transactionApi.finalizeTransaction(reference)
+      setTransaction(finalized)
+      toast.success("Transaction finalisée avec succès")
+      if (finalized.transaction_link) {
+        window.open(finalized.transaction_link, "_blank", "noopener,noreferrer")
+      }
+      refresh()
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : "Erreur lors de la finalisation de la transaction")
+    } finally {
+      setActionType(null)
+    }
+  }
+
+  const handleCancel = async () => {
+    setActionType("cancel")
+    try {
+      await transactionApi.cancelTransaction(reference)
+      toast.success("Transaction annulée avec succès")
+      refresh()
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : "Erreur lors de l'annulation de la transaction")
+    } finally {
+      setActionType(null)
+    }
+  }
+
+  const renderContent = () => {
+    if (isLoading && !transaction) {
+      return <PageSpinner />
+    }
+
+    if (!transaction) {
+      return (
+        <Card>
+          <CardContent className="py-12 text-center space-y-3">
+            <p className="text-muted-foreground">
+              {error?.kind === "not-found"
+                ? "Transaction introuvable"
+                : "Impossible de récupérer la transaction pour le moment"}
+            </p>
+            <Button variant="outline" onClick={refresh}>
+              Réessayer
+            </Button>
+          </CardContent>
+        </Card>
+      )
+    }
+
+    const timeline = getTimeline(transaction, isPending)
+
+    return (
+      <>
+        {/* Summary */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex flex-wrap items-center gap-2 text-lg">
+              <span className="break-all">#{transaction.reference}</span>
+              <Badge variant={transaction.type_trans === "deposit" ? "default" : "secondary"}>
+                {transaction.type_trans === "deposit" ? "Dépôt" : "Retrait"}
+              </Badge>
+              <TransactionStatusBadge status={transaction.status} />
+            </CardTitle>
+            <CardDescription>
+              {isPending
+                ? "Cette page se met à jour automatiquement jusqu'à la fin du traitement."
+                : "Le traitement de cette transaction est terminé."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">Montant</span>
+              <span className="font-semibold">
+                {transaction.amount.toLocaleString("fr-FR", {
+                  style: "currency",
+                  currency: "XOF",
+                  minimumFractionDigits: 0,
+                })}
+              </span>
+            </div>
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">Plateforme</span>
+              <span className="font-medium text-right">{transaction.app_details?.name || transaction.app}</span>
+            </div>
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">ID de pari</span>
+              <span className="font-medium text-right">{transaction.user_app_id}</span>
+            </div>
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">Téléphone</span>
+              <span className="font-medium text-right">{formatPhoneNumberForDisplay(transaction.phone_number)}</span>
+            </div>
+            {transaction.error_message && (
+              <>
+                <Separator />
+                <div className="flex items-start gap-2 rounded-md bg-red-50 p-3 text-red-700">
+                  <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <p className="text-xs break-words">{transaction.error_message}</p>
+                </div>
+              </>
+            )}
+            {isPending && transaction.ussd_code && (
+              <>
+                <Separator />
+                <div className="rounded-md bg-amber-50 p-3">
+                  <p className="text-xs font-medium text-amber-900">Code USSD</p>
+                  <p className="text-sm font-mono text-amber-700 mt-1 break-all">{transaction.ussd_code}</p>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Timeline */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Suivi</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-4">
+              {timeline.map((event) => (
+                <li key={event.label} className="flex items-start gap-3">
+                  {event.state === "done" && <CheckCircle2 className="h-5 w-5 text-green-600 shrink-0" />}
+                  {event.state === "current" && <Loader2 className="h-5 w-5 text-primary animate-spin shrink-0" />}
+                  {event.state === "failed" && <XCircle className="h-5 w-5 text-destructive shrink-0" />}
+                  {event.state === "upcoming" && <Circle className="h-5 w-5 text-muted-foreground shrink-0" />}
+                  <div>
+                    <p className={`text-sm font-medium ${event.state === "upcoming" ? "text-muted-foreground" : ""}`}>
+                      {event.label}
+                    </p>
+                    {event.date && <p className="text-xs text-muted-foreground">{formatDate(event.date)}</p>}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+
+        {/* Actions */}
+        {isPending && (
+          <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
+            <Button variant="outline" onClick={handleCancel} disabled={actionType !== null}>
+              {actionType === "cancel" ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Annulation...</>
+              ) : (
+                "Annuler"
+              )}
+            </Button>
+            <Button onClick={handleFinalize} disabled={actionType !== null}>
+              {actionType === "finalize" ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Finalisation...</>
+              ) : (
+                "Finaliser"
+              )}
+            </Button>
+          </div>
+        )}
+      </>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto w-full px-3 sm:px-4 lg:px-6">
+      <div className="space-y-4 sm:space-y-5">
+        {/* Header */}
+        <div className="pb-2 border-b border-border/50">
+          <div className="flex items-center gap-3 mb-2">
+            <Button asChild variant="ghost" size="icon" className="h-8 w-8 sm:h-9 sm:w-9">
+              <Link href="/dashboard/history">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">Suivi de la transaction</h1>
+              {lastCheckedAt && (
+                <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                  Dernière vérification à {format(lastCheckedAt, "HH:mm:ss", { locale: fr })}
+                </p>
+              )}
+            </div>
+            <Button variant="outline" size="icon" onClick={refresh} disabled={isRefreshing} className="h-8 w-8 sm:h-9 sm:w-9">
+              <RefreshCw className={`h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+              <span className="sr-only">Actualiser</span>
+            </Button>
+          </div>
+        </div>
+
+        {renderContent()}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,238 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { fr } from "date-fns/locale"
+import { toast } from "react-hot-toast"
+import { Loader2, PauseCircle, Save, ShieldCheck } from "lucide-react"
+import { useDepositLimits } from "@/hooks/use-deposit-limits"
+import {
+  COOL_OFF_OPTIONS,
+  LIMIT_INCREASE_DELAY_HOURS,
+  LIMIT_PERIODS,
+  startCoolOff,
+  updateDepositLimit,
+  type LimitPeriod,
+} from "@/lib/deposit-limits"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+
+const PERIOD_TITLES: Record<LimitPeriod, string> = {
+  daily: "Limite par jour",
+  weekly: "Limite par semaine",
+  monthly: "Limite par mois",
+}
+
+const formatDate = (date: Date | string) => format(new Date(date), "dd MMMM yyyy à HH:mm", { locale: fr })
+
+type LimitInputs = Record<LimitPeriod, string>
+
+export function ResponsibleGamblingCard() {
+  const { settings, totals, isLoading, coolOffUntil, update } = useDepositLimits()
+  const [inputs, setInputs] = useState<LimitInputs>({ daily: "", weekly: "", monthly: "" })
+  const [coolOffHours, setCoolOffHours] = useState(String(COOL_OFF_OPTIONS[0][0]))
+  const [isCoolOffDialogOpen, setIsCoolOffDialogOpen] = useState(false)
+
+  useEffect(() => {
+    if (!settings) return
+    setInputs({
+      daily: settings.limits.daily?.toString() ?? "",
+      weekly: settings.limits.weekly?.toString() ?? "",
+      monthly: settings.limits.monthly?.toString() ?? "",
+    })
+  }, [settings])
+
+  const parseLimit = (value: string) => {
+    if (value.trim() === "") return null
+    const amount = Number(value)
+    return Number.isFinite(amount) && amount > 0 ? Math.floor(amount) : NaN
+  }
+
+  const handleSaveLimits = () => {
+    if (!settings) return
+
+    let next = settings
+    for (const [period] of LIMIT_PERIODS) {
+      const amount = parseLimit(inputs[period])
+      if (Number.isNaN(amount)) {
+        toast.error("Les limites doivent être des montants supérieurs à 0")
+        return
+      }
+      // Unchanged fields keep their pending change and its waiting period
+      const pending = settings.pendingChanges.find((change) => change.period === period)
+      if (amount === settings.limits[period] || (pending && amount === pending.amount)) continue
+      next = updateDepositLimit(next, period, amount)
+    }
+
+    update(next)
+    const queued = next.pendingChanges.some((change) => !settings.pendingChanges.includes(change))
+    toast.success(
+      queued
+        ? `Limites enregistrées. Les hausses prendront effet dans ${LIMIT_INCREASE_DELAY_HOURS} heures.`
+        : "Limites enregistrées",
+    )
+  }
+
+  const handleCancelPendingChange = (period: LimitPeriod) => {
+    if (!settings) return
+    update({ ...settings, pendingChanges: settings.pendingChanges.filter((change) => change.period !== period) })
+    toast.success("Modification annulée")
+  }
+
+  const handleStartCoolOff = () => {
+    if (!settings) return
+    update(startCoolOff(settings, Number(coolOffHours)))
+    setIsCoolOffDialogOpen(false)
+    toast.success("Pause activée")
+  }
+
+  const coolOffLabel = COOL_OFF_OPTIONS.find(([hours]) => String(hours) === coolOffHours)?.[1]
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="p-3 sm:p-4 md:p-5 pb-2 sm:pb-3 border-b border-border/50">
+        <CardTitle className="text-sm sm:text-base md:text-lg font-semibold flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+          <span className="truncate">Jeu responsable</span>
+        </CardTitle>
+        <CardDescription className="text-[11px] sm:text-xs md:text-sm mt-0.5 sm:mt-1">
+          Limitez vos dépôts ou faites une pause. Ces réglages s&apos;appliquent sur cet appareil.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-3 sm:p-4 md:p-5 space-y-4 sm:space-y-5">
+        {isLoading || !settings ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {/* Deposit limits */}
+            <div className="space-y-3 sm:space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+                {LIMIT_PERIODS.map(([period]) => {
+                  const limit = settings.limits[period]
+                  const pending = settings.pendingChanges.find((change) => change.period === period)
+                  return (
+                    <div key={period} className="space-y-1.5 sm:space-y-2">
+                      <Label htmlFor={`limit-${period}`} className="text-[11px] sm:text-xs md:text-sm font-medium">
+                        {PERIOD_TITLES[period]} (FCFA)
+                      </Label>
+                      <Input
+                        id={`limit-${period}`}
+                        type="number"
+                        min={1}
+                        placeholder="Aucune limite"
+                        value={inputs[period]}
+                        onChange={(e) => setInputs((current) => ({ ...current, [period]: e.target.value }))}
+                        className="h-11 sm:h-10 text-sm touch-manipulation"
+                      />
+                      {limit !== null && totals && (
+                        <p className="text-[10px] sm:text-xs text-muted-foreground">
+                          Déjà déposé : {totals[period].toLocaleString()} / {limit.toLocaleString()} FCFA
+                        </p>
+                      )}
+                      {pending && (
+                        <div className="text-[10px] sm:text-xs text-amber-700 dark:text-amber-400">
+                          {pending.amount === null
+                            ? "Sera supprimée"
+                            : `Passera à ${pending.amount.toLocaleString()} FCFA`}{" "}
+                          le {formatDate(pending.effectiveAt)}.{" "}
+                          <button
+                            type="button"
+                            onClick={() => handleCancelPendingChange(period)}
+                            className="underline underline-offset-2"
+                          >
+                            Annuler
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+              <p className="text-[10px] sm:text-xs text-muted-foreground">
+                Une baisse s&apos;applique immédiatement. Une hausse ou la suppression d&apos;une limite ne prend effet
+                qu&apos;après un délai de {LIMIT_INCREASE_DELAY_HOURS} heures.
+              </p>
+              <Button onClick={handleSaveLimits} className="w-full sm:w-auto h-11 sm:h-10 text-sm touch-manipulation">
+                <Save className="mr-2 h-4 w-4" />
+                Enregistrer les limites
+              </Button>
+            </div>
+
+            <Separator />
+
+            {/* Cool-off */}
+            <div className="space-y-3">
+              <div>
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <PauseCircle className="h-4 w-4" />
+                  Faire une pause
+                </p>
+                <p className="text-[11px] sm:text-xs text-muted-foreground mt-1">
+                  Aucun dépôt ne sera possible pendant la durée choisie. Une pause ne peut pas être interrompue.
+                </p>
+              </div>
+              {coolOffUntil && (
+                <p className="rounded-md bg-amber-50 dark:bg-amber-950/20 p-3 text-xs sm:text-sm text-amber-800 dark:text-amber-300">
+                  Pause active jusqu&apos;au {formatDate(coolOffUntil)}.
+                </p>
+              )}
+              <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+                <Select value={coolOffHours} onValueChange={setCoolOffHours}>
+                  <SelectTrigger className="h-11 sm:h-10 text-sm sm:w-48">
+                    <SelectValue placeholder="Durée" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COOL_OFF_OPTIONS.map(([hours, label]) => (
+                      <SelectItem key={hours} value={String(hours)}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsCoolOffDialogOpen(true)}
+                  className="h-11 sm:h-10 text-sm border-border/50 touch-manipulation"
+                >
+                  {coolOffUntil ? "Prolonger la pause" : "Commencer la pause"}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={isCoolOffDialogOpen} onOpenChange={setIsCoolOffDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Faire une pause de {coolOffLabel} ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Vous ne pourrez plus effectuer de dépôt pendant cette période, et la pause ne pourra pas être annulée.
+              Les retraits restent possibles.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction onClick={handleStartCoolOff}>Confirmer</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
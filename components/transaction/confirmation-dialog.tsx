@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useRef } from "react"
 import {
   Dialog,
   DialogContent,
@@ -48,8 +48,12 @@ export function ConfirmationDialog({
   isLoading = false
 }: ConfirmationDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
+  // State updates are async: a ref blocks a double tap before the button re-renders disabled
+  const isConfirmingRef = useRef(false)
 
   const handleConfirm = async () => {
+    if (isConfirmingRef.current) return
+    isConfirmingRef.current = true
     setIsSubmitting(true)
     try {
       await onConfirm()
@@ -62,6 +66,7 @@ export function ConfirmationDialog({
     } catch (error) {
       toast.error("Une erreur est survenue lors de la transaction")
     } finally {
+      isConfirmingRef.current = false
       setIsSubmitting(false)
     }
   }
@@ -0,0 +1,239 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { toast } from "react-hot-toast"
+import { format } from "date-fns"
+import { fr } from "date-fns/locale"
+import { Copy, PauseCircle } from "lucide-react"
+import { transactionApi } from "@/lib/api-client"
+import { useSettings } from "@/hooks/use-settings"
+import { useDepositLimits } from "@/hooks/use-deposit-limits"
+import { buildUssdPayment } from "@/lib/ussd"
+import { getTransactionHref } from "@/lib/utils"
+import { getTransactionData, type WizardFlow, type WizardFlowHooks } from "@/lib/wizard"
+import type { Network, Transaction } from "@/lib/types"
+import { TRANSACTION_STEPS } from "@/components/transaction/wizard-steps"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+/** Deposit limits and cool-off, then the payment link or USSD code once the deposit is created */
+function useDepositFlow(): WizardFlowHooks {
+  const router = useRouter()
+  const { settings } = useSettings()
+  const depositLimits = useDepositLimits()
+
+  // Transaction link modal
+  const [isTransactionLinkModalOpen, setIsTransactionLinkModalOpen] = useState(false)
+  const [transactionLink, setTransactionLink] = useState<string | null>(null)
+  const [isMoovUssdModalOpen, setIsMoovUssdModalOpen] = useState(false)
+  const [moovUssdCode, setMoovUssdCode] = useState<string | null>(null)
+  const [moovMerchantPhone, setMoovMerchantPhone] = useState<string | null>(null)
+  const [ussdNetworkName, setUssdNetworkName] = useState<string>("Moov")
+  // Transaction shown on the tracking page once the payment step is done
+  const [trackedReference, setTrackedReference] = useState<string | null>(null)
+
+  // ── Flux partagé post-finalisation / post-création ────────────────────────
+  const handlePostFinalization = async (data: Transaction, network: Network | null, amount: number) => {
+    setTrackedReference(data?.reference ?? null)
+    if (network?.payment_by_link || data?.transaction_link) {
+      setTransactionLink(data?.transaction_link)
+      setIsTransactionLinkModalOpen(true)
+      return
+    }
+    const handled = handleUssdFlow(network, amount, network?.payment_by_link)
+    if (!handled) goToTracking(data?.reference)
+  }
+
+  const goToTracking = (reference = trackedReference) => {
+    router.push(reference ? getTransactionHref(reference) : "/dashboard")
+  }
+
+  const attemptDialerRedirect = (ussdCode: string) => {
+    try {
+      const link = document.createElement("a")
+      link.href = `tel:${ussdCode}`
+      link.style.display = "none"
+      document.body.appendChild(link)
+      link.click()
+      setTimeout(() => {
+        if (document.body.contains(link)) {
+          document.body.removeChild(link)
+        }
+      }, 100)
+    } catch (error) {
+      console.error("Impossible d'ouvrir automatiquement le composeur:", error)
+    }
+  }
+
+  const handleUssdFlow = (network: Network | null, amountValue: number, paymentByLink?: boolean) => {
+    if (!network) return false
+
+    const payment = buildUssdPayment(network, amountValue, settings, paymentByLink)
+    if (!payment) return false
+
+    setUssdNetworkName(payment.label)
+    setMoovMerchantPhone(payment.merchantPhone)
+    setMoovUssdCode(payment.code)
+    setIsMoovUssdModalOpen(true)
+    attemptDialerRedirect(payment.code)
+    return true
+  }
+
+  const handleCopyUssdCode = async () => {
+    if (!moovUssdCode) return
+    try {
+      await navigator.clipboard.writeText(moovUssdCode)
+      toast.success("Code USSD copié")
+    } catch (error) {
+      toast.error("Copie impossible, copiez manuellement le code.")
+    }
+  }
+
+  // ✅ Point 3 : fermer le modal USSD redirige vers le suivi de la transaction
+  const handleMoovModalClose = (open: boolean) => {
+    if (!open) {
+      setIsMoovUssdModalOpen(false)
+      goToTracking()
+    } else {
+      setIsMoovUssdModalOpen(true)
+    }
+  }
+
+  const handleContinueTransaction = async () => {
+    if (transactionLink) {
+      window.open(transactionLink, "_blank", "noopener,noreferrer")
+      setIsTransactionLinkModalOpen(false)
+      setTransactionLink(null)
+      goToTracking()
+    }
+  }
+
+  return {
+    isLoading: depositLimits.isLoading,
+    blocker: depositLimits.coolOffUntil ? (
+      <Card className="border-border/50">
+        <CardContent className="flex flex-col items-center gap-3 py-10 text-center">
+          <PauseCircle className="h-10 w-10 text-muted-foreground" />
+          <div className="space-y-1">
+            <p className="font-semibold">Pause en cours</p>
+            <p className="text-sm text-muted-foreground">
+              Vous avez choisi de suspendre vos dépôts jusqu&apos;au{" "}
+              {format(depositLimits.coolOffUntil, "dd MMMM yyyy à HH:mm", { locale: fr })}.
+            </p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/dashboard/profile">Voir mes limites</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    ) : undefined,
+    validateAmount: depositLimits.validateAmount,
+    remainingAllowance: depositLimits.remainingAllowance,
+    onPrefilled: ({ amount }) => {
+      const limitError = depositLimits.validateAmount(amount)
+      if (limitError) {
+        toast.error(limitError)
+        return false
+      }
+      return amount > 0
+    },
+    // Deposits made elsewhere since the amount was entered count too
+    beforeSubmit: ({ amount }) => depositLimits.checkBeforeDeposit(amount),
+    submit: (values, options) => transactionApi.createDeposit({ ...getTransactionData(values), source: "web" }, options),
+    afterSubmit: (transaction, values) => handlePostFinalization(transaction, values.network, values.amount),
+    dialogs: (
+      <>
+        {/* Transaction Link Modal */}
+        <Dialog open={isTransactionLinkModalOpen} onOpenChange={setIsTransactionLinkModalOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Continuer la transaction</DialogTitle>
+              <DialogDescription>
+                Cliquez sur continuer pour continuer la transaction
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setIsTransactionLinkModalOpen(false)
+                  setTransactionLink(null)
+                  goToTracking()
+                }}
+              >
+                Annuler
+              </Button>
+              <Button onClick={handleContinueTransaction}>Continuer</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* USSD fallback modal (Moov/Orange) */}
+        {/* ✅ Point 3 : onOpenChange + bouton "J'ai compris" redirigent vers le suivi */}
+        <Dialog open={isMoovUssdModalOpen} onOpenChange={handleMoovModalClose}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Finaliser la transaction {ussdNetworkName}</DialogTitle>
+              <DialogDescription asChild>
+                <div className="text-sm text-muted-foreground space-y-2">
+                  <p>
+                    Nous n&apos;avons pas pu ouvrir automatiquement le composeur téléphonique. Copiez le code ci-dessous et collez-le dans l&apos;application Téléphone pour terminer votre transaction {ussdNetworkName}.
+                  </p>
+                  {moovMerchantPhone && (
+                    <p>
+                      <span className="font-semibold text-foreground">Numéro marchand&nbsp;:</span> {moovMerchantPhone}
+                    </p>
+                  )}
+                  {moovUssdCode ? (
+                    <div className="space-y-1">
+                      <p className="font-semibold text-foreground">Code USSD à composer :</p>
+                      <div className="flex items-center gap-2">
+                        <Input value={moovUssdCode} readOnly className="font-mono text-sm" />
+                        <Button variant="outline" size="icon" onClick={handleCopyUssdCode}>
+                          <Copy className="h-4 w-4" />
+                          <span className="sr-only">Copier le code</span>
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Collez ce code dans votre composeur téléphonique et validez pour poursuivre.
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-destructive text-sm">
+                      Impossible de générer le code USSD automatiquement. Veuillez réessayer ou contacter le support.
+                    </p>
+                  )}
+                </div>
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button onClick={() => handleMoovModalClose(false)}>J&apos;ai compris</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </>
+    ),
+  }
+}
+
+export const depositFlow: WizardFlow = {
+  type: "deposit",
+  title: "Effectuer un dépôt",
+  description: "Remplissez les informations pour effectuer votre dépôt",
+  steps: TRANSACTION_STEPS,
+  guardPending: true,
+  successMessage: "Dépôt initié avec succès!",
+  errorMessage: "Erreur lors de la création du dépôt",
+  useFlow: useDepositFlow,
+}
@@ -0,0 +1,40 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { toast } from "react-hot-toast"
+import { transactionApi } from "@/lib/api-client"
+import { getTransactionHref } from "@/lib/utils"
+import { getTransactionData, type WizardFlow, type WizardFlowHooks } from "@/lib/wizard"
+import { TRANSACTION_STEPS } from "@/components/transaction/wizard-steps"
+
+/** Withdrawals need the code from the betting platform and go straight to tracking once created */
+function useWithdrawalFlow(): WizardFlowHooks {
+  const router = useRouter()
+
+  return {
+    // Withdrawal codes are single-use, so a pre-filled withdrawal stops on the amount step for a new one
+    onPrefilled: () => {
+      toast.success("Saisissez votre code de retrait pour continuer")
+      return false
+    },
+    submit: (values, options) =>
+      transactionApi.createWithdrawal(
+        { ...getTransactionData(values), withdriwal_code: values.withdriwalCode, source: "web" },
+        options,
+      ),
+    afterSubmit: (transaction) => {
+      router.push(getTransactionHref(transaction.reference))
+    },
+  }
+}
+
+export const withdrawalFlow: WizardFlow = {
+  type: "withdrawal",
+  title: "Effectuer un retrait",
+  description: "Remplissez les informations pour effectuer votre retrait",
+  steps: TRANSACTION_STEPS,
+  guardPending: true,
+  successMessage: "Retrait initié avec succès!",
+  errorMessage: "Erreur lors de la création du retrait",
+  useFlow: useWithdrawalFlow,
+}
@@ -7,6 +7,8 @@ interface ProgressBarProps {
   currentStep: number
   totalSteps: number
   type?: "deposit" | "withdrawal"
+  /** Step names, defaults to the deposit and withdrawal ones */
+  labels?: string[]
   className?: string
 }
 
@@ -15,8 +17,8 @@ const stepLabels = {
   withdrawal: ["Plateforme", "ID Pari", "Réseau", "Téléphone", "Montant"],
 }
 
-export function TransactionProgressBar({ currentStep, totalSteps, type = "deposit", className }: ProgressBarProps) {
-  const labels = stepLabels[type] || stepLabels.deposit
+export function TransactionProgressBar({ currentStep, totalSteps, type = "deposit", labels: stepNames, className }: ProgressBarProps) {
+  const labels = stepNames ?? stepLabels[type] ?? stepLabels.deposit
   const primaryColor = type === "deposit" ? "emerald" : "orange"
 
   return (
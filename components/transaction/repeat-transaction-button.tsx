@@ -0,0 +1,34 @@
+"use client"
+
+import Link from "next/link"
+import { RotateCcw } from "lucide-react"
+import { getRepeatHref, isRepeatable } from "@/lib/repeat-transaction"
+import type { Transaction } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+
+interface RepeatTransactionButtonProps {
+  transaction: Transaction
+  className?: string
+}
+
+/** Opens the deposit or withdrawal wizard pre-filled with this transaction */
+export function RepeatTransactionButton({ transaction, className }: RepeatTransactionButtonProps) {
+  if (!isRepeatable(transaction)) return null
+
+  return (
+    <Button
+      asChild
+      variant="outline"
+      size="sm"
+      className={className}
+      // Rows are clickable themselves, the button must not open them too
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <Link href={getRepeatHref(transaction)}>
+        <RotateCcw className="h-3.5 w-3.5" />
+        Recommencer
+      </Link>
+    </Button>
+  )
+}
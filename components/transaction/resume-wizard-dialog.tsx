@@ -0,0 +1,54 @@
+"use client"
+
+import { Loader2 } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { fr } from "date-fns/locale"
+import type { RepeatableType } from "@/lib/repeat-transaction"
+import type { WizardSnapshot } from "@/lib/wizard-session"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+
+interface ResumeWizardDialogProps {
+  type: RepeatableType
+  /** Unfinished flow found on load, the prompt stays open until the user picks an option */
+  snapshot: WizardSnapshot | null
+  isResuming: boolean
+  onResume: () => void
+  onDiscard: () => void
+}
+
+export function ResumeWizardDialog({ type, snapshot, isResuming, onResume, onDiscard }: ResumeWizardDialogProps) {
+  const label = type === "deposit" ? "dépôt" : "retrait"
+
+  return (
+    <AlertDialog open={snapshot !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reprendre votre {label} ?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Vous avez commencé un {label}
+            {snapshot?.platformName && <> sur {snapshot.platformName}</>}
+            {snapshot && <> {formatDistanceToNow(snapshot.savedAt, { addSuffix: true, locale: fr })}</>} sans le terminer.
+            Vos choix seront vérifiés avant de continuer.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={onDiscard} disabled={isResuming}>
+            Recommencer à zéro
+          </Button>
+          <Button onClick={onResume} disabled={isResuming}>
+            {isResuming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Reprendre
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -21,6 +21,10 @@ interface AmountStepProps {
   selectedPhone: UserPhone | null
   type: "deposit" | "withdrawal"
   onNext: () => void
+  /** Extra check from the user's deposit limits, returns the reason the amount is refused */
+  checkLimits?: (amount: number) => string | null
+  /** Amount still allowed by the deposit limits, null when none is set */
+  remainingAllowance?: number | null
 }
 
 export function AmountStep({
@@ -33,7 +37,9 @@ export function AmountStep({
   selectedNetwork,
   selectedPhone,
   type,
-  onNext
+  onNext,
+  checkLimits,
+  remainingAllowance,
 }: AmountStepProps) {
   const [errors, setErrors] = useState<{ amount?: string; withdriwalCode?: string }>({})
 
@@ -47,7 +53,7 @@ export function AmountStep({
     if (value < minAmount) return `Le montant minimum est ${minAmount.toLocaleString()} FCFA`
     if (value > maxAmount) return `Le montant maximum est ${maxAmount.toLocaleString()} FCFA`
     
-    return null
+    return checkLimits?.(value) ?? null
   }
 
   const validateWithdriwalCode = (code: string) => {
@@ -229,6 +235,12 @@ export function AmountStep({
                 Montant minimum: <span className="font-medium">{minAmount.toLocaleString()} FCFA</span> • 
                 Maximum: <span className="font-medium">{maxAmount.toLocaleString()} FCFA</span>
               </p>
+              {remainingAllowance !== undefined && remainingAllowance !== null && (
+                <p className="text-[11px] sm:text-xs text-muted-foreground mt-1">
+                  Selon vos limites de dépôt, vous pouvez encore déposer{" "}
+                  <span className="font-medium">{remainingAllowance.toLocaleString()} FCFA</span>
+                </p>
+              )}
             </div>
             
             {amount > 0 && (
@@ -18,6 +18,7 @@ import {
 } from "@/components/ui/alert-dialog"
 import { Loader2, Plus, Edit, Trash2 } from "lucide-react"
 import { userAppIdApi } from "@/lib/api-client"
+import { ApiError } from "@/lib/api"
 import type { UserAppId, Platform, SearchUserResponse } from "@/lib/types"
 import { toast } from "react-hot-toast"
 
@@ -73,7 +74,7 @@ export function BetIdStep({ selectedPlatform, selectedBetId, onSelect, onNext }:
     // Search for the user first
     setIsSearching(true)
     try {
-      const response = await userAppIdApi.searchUser(selectedPlatform.id, newBetId.trim())
+      const response = await userAppIdApi.searchUser(selectedPlatform.id, newBetId.trim(), { silent: true })
       
       // Validate user exists
       if (response.UserId === 0) {
@@ -101,22 +102,13 @@ export function BetIdStep({ selectedPlatform, selectedBetId, onSelect, onNext }:
       setIsConfirmationModalOpen(true)
     } catch (error: any) {
       console.error("Search error:", error)
-      // Check for field-specific errors (400 status)
-      if (error.response?.status === 400) {
-        const errorData = error.response.data
-        let errorMsg = "Erreur lors de la recherche"
-        
-        if (errorData.user_app_id) {
-          errorMsg = Array.isArray(errorData.user_app_id) 
-            ? errorData.user_app_id[0] 
-            : errorData.user_app_id
-        } else if (errorData.app) {
-          errorMsg = Array.isArray(errorData.app) 
-            ? errorData.app[0] 
-            : errorData.app
-        } else if (errorData.detail || errorData.error || errorData.message) {
-          errorMsg = errorData.detail || errorData.error || errorData.message
-        }
+      // Check for field-specific validation errors
+      if (error instanceof ApiError && error.kind === "validation") {
+        const errorMsg =
+          error.fieldErrors.user_app_id?.[0] ||
+          error.fieldErrors.app?.[0] ||
+          error.message ||
+          "Erreur lors de la recherche"
         
         setErrorMessage(errorMsg)
       } else {
@@ -149,15 +141,8 @@ export function BetIdStep({ selectedPlatform, selectedBetId, onSelect, onNext }:
       console.error("Add bet ID error:", error)
       let errorMsg = "Erreur lors de l'ajout de l'ID de pari"
       
-      if (error.response?.status === 400) {
-        const errorData = error.response.data
-        if (errorData.user_app_id) {
-          errorMsg = Array.isArray(errorData.user_app_id) 
-            ? errorData.user_app_id[0] 
-            : errorData.user_app_id
-        } else if (errorData.detail || errorData.error || errorData.message) {
-          errorMsg = errorData.detail || errorData.error || errorData.message
-        }
+      if (error instanceof ApiError && error.kind === "validation") {
+        errorMsg = error.fieldErrors.user_app_id?.[0] || error.message || errorMsg
       }
       
       toast.error(errorMsg)
@@ -199,7 +184,7 @@ export function BetIdStep({ selectedPlatform, selectedBetId, onSelect, onNext }:
     // If bet ID changed, search first
     setIsSearching(true)
     try {
-      const response = await userAppIdApi.searchUser(selectedPlatform.id, newBetId.trim())
+      const response = await userAppIdApi.searchUser(selectedPlatform.id, newBetId.trim(), { silent: true })
       
       // Validate user exists
       if (response.UserId === 0) {
@@ -227,22 +212,13 @@ export function BetIdStep({ selectedPlatform, selectedBetId, onSelect, onNext }:
       setIsConfirmationModalOpen(true)
     } catch (error: any) {
       console.error("Search error:", error)
-      // Check for field-specific errors (400 status)
-      if (error.response?.status === 400) {
-        const errorData = error.response.data
-        let errorMsg = "Erreur lors de la recherche"
-        
-        if (errorData.user_app_id) {
-          errorMsg = Array.isArray(errorData.user_app_id) 
-            ? errorData.user_app_id[0] 
-            : errorData.user_app_id
-        } else if (errorData.app) {
-          errorMsg = Array.isArray(errorData.app) 
-            ? errorData.app[0] 
-            : errorData.app
-        } else if (errorData.detail || errorData.error || errorData.message) {
-          errorMsg = errorData.detail || errorData.error || errorData.message
-        }
+      // Check for field-specific validation errors
+      if (error instanceof ApiError && error.kind === "validation") {
+        const errorMsg =
+          error.fieldErrors.user_app_id?.[0] ||
+          error.fieldErrors.app?.[0] ||
+          error.message ||
+          "Erreur lors de la recherche"
         
         setErrorMessage(errorMsg)
       } else {
@@ -277,15 +253,8 @@ export function BetIdStep({ selectedPlatform, selectedBetId, onSelect, onNext }:
       console.error("Update bet ID error:", error)
       let errorMsg = "Erreur lors de la modification de l'ID de pari"
       
-      if (error.response?.status === 400) {
-        const errorData = error.response.data
-        if (errorData.user_app_id) {
-          errorMsg = Array.isArray(errorData.user_app_id) 
-            ? errorData.user_app_id[0] 
-            : errorData.user_app_id
-        } else if (errorData.detail || errorData.error || errorData.message) {
-          errorMsg = errorData.detail || errorData.error || errorData.message
-        }
+      if (error instanceof ApiError && error.kind === "validation") {
+        errorMsg = error.fieldErrors.user_app_id?.[0] || error.message || errorMsg
       }
       
       toast.error(errorMsg)
@@ -0,0 +1,96 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Star } from "lucide-react"
+import { useAuth } from "@/lib/auth-context"
+import {
+  fetchTemplateReferenceData,
+  loadTemplates,
+  resolveTemplate,
+  type TransactionTemplate,
+} from "@/lib/templates"
+import type { RepeatableType, WizardPrefill } from "@/lib/repeat-transaction"
+import { formatPhoneNumberForDisplay } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
+
+interface TemplateCardsProps {
+  type: RepeatableType
+  onSelect: (prefill: WizardPrefill) => void
+}
+
+interface ResolvedTemplate {
+  template: TransactionTemplate
+  prefill: WizardPrefill
+}
+
+/** The user's saved templates as one-tap cards, with the ones that can't be used anymore flagged */
+export function TemplateCards({ type, onSelect }: TemplateCardsProps) {
+  const { user } = useAuth()
+  const [templates, setTemplates] = useState<ResolvedTemplate[]>([])
+
+  useEffect(() => {
+    if (!user) return
+    const saved = loadTemplates(user.id)
+    if (saved.length === 0) return
+    let isMounted = true
+
+    fetchTemplateReferenceData(type)
+      .then((data) => {
+        if (!isMounted) return
+        setTemplates(saved.map((template) => ({ template, prefill: resolveTemplate(template, type, data) })))
+      })
+      .catch((error) => console.error("Erreur chargement des favoris:", error))
+
+    return () => {
+      isMounted = false
+    }
+  }, [user, type])
+
+  if (templates.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium flex items-center gap-1.5">
+          <Star className="h-4 w-4" />
+          Favoris
+        </p>
+        <Link href="/dashboard/phones" className="text-xs text-muted-foreground hover:underline">
+          Gérer
+        </Link>
+      </div>
+      <div className="flex gap-2 sm:gap-3 overflow-x-auto pb-1">
+        {templates.map(({ template, prefill }) => {
+          // Only a wrong amount can be fixed in the wizard, anything else makes the template unusable
+          const isDisabled = prefill.invalidStep !== null && prefill.invalidStep < 5
+          return (
+            <button
+              key={template.id}
+              type="button"
+              disabled={isDisabled}
+              onClick={() => onSelect(prefill)}
+              className="min-w-44 max-w-56 shrink-0 rounded-lg border border-border/50 bg-card p-3 text-left transition-colors hover:border-primary disabled:cursor-not-allowed disabled:opacity-60 disabled:hover:border-border/50"
+            >
+              <p className="font-semibold text-sm truncate">{template.name}</p>
+              <p className="text-xs text-muted-foreground truncate mt-0.5">
+                {[prefill.platform?.name, prefill.network?.public_name].filter(Boolean).join(" • ") || "—"}
+              </p>
+              {prefill.phone && (
+                <p className="text-xs text-muted-foreground truncate">{formatPhoneNumberForDisplay(prefill.phone.phone)}</p>
+              )}
+              {template.amount !== null && (
+                <p className="text-sm font-medium mt-1">{template.amount.toLocaleString()} FCFA</p>
+              )}
+              {prefill.issue && (
+                <Badge variant={isDisabled ? "destructive" : "outline"} className="mt-1.5 text-[10px] whitespace-normal">
+                  {prefill.issue}
+                </Badge>
+              )}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+"use client"
+
+import { useEffect } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import type { TemplateReferenceData, TransactionTemplate } from "@/lib/templates"
+import { formatPhoneNumberForDisplay } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1, "Le nom est requis").max(40, "40 caractères maximum"),
+  platformId: z.string().min(1, "Plateforme requise"),
+  betId: z.number({ message: "ID de pari requis" }).min(1, "ID de pari requis"),
+  networkId: z.number({ message: "Réseau requis" }).min(1, "Réseau requis"),
+  phoneId: z.number({ message: "Numéro requis" }).min(1, "Numéro requis"),
+  amount: z.number().positive("Le montant doit être supérieur à 0").nullable(),
+})
+
+type TemplateFormData = z.infer<typeof templateSchema>
+
+interface TemplateFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Template being edited, null to create one */
+  template: TransactionTemplate | null
+  data: TemplateReferenceData
+  onSave: (template: Omit<TransactionTemplate, "id"> & { id?: number }) => void
+}
+
+export function TemplateFormDialog({ open, onOpenChange, template, data, onSave }: TemplateFormDialogProps) {
+  const form = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+  })
+  const platformId = form.watch("platformId")
+  const networkId = form.watch("networkId")
+
+  useEffect(() => {
+    if (!open) return
+    form.reset(
+      template
+        ? {
+            name: template.name,
+            platformId: template.platformId,
+            betId: template.betId,
+            networkId: template.networkId,
+            phoneId: template.phoneId,
+            amount: template.amount,
+          }
+        : { name: "", platformId: "", amount: null },
+    )
+  }, [open, template])
+
+  const betIds = data.betIds.filter((betId) => betId.app === platformId)
+  const phones = data.phones.filter((phone) => phone.network === networkId)
+
+  const handleSubmit = (values: TemplateFormData) => {
+    onSave({ ...values, id: template?.id })
+    onOpenChange(false)
+  }
+
+  const errors = form.formState.errors
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg sm:text-xl">{template ? "Modifier le favori" : "Ajouter un favori"}</DialogTitle>
+          <DialogDescription className="text-sm">
+            Enregistrez une plateforme, un ID de pari, un réseau et un numéro pour les retrouver en un clic
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name" className="text-sm sm:text-base">Nom</Label>
+            <Input
+              id="template-name"
+              placeholder="Ex: Mon compte principal"
+              {...form.register("name")}
+              className="h-11 sm:h-10 text-base sm:text-sm"
+            />
+            {errors.name && <p className="text-xs sm:text-sm text-destructive">{errors.name.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm sm:text-base">Plateforme de pari</Label>
+            <Select
+              value={platformId || undefined}
+              onValueChange={(value) => {
+                form.setValue("platformId", value, { shouldValidate: true })
+                form.resetField("betId")
+              }}
+            >
+              <SelectTrigger className="h-11 sm:h-10 text-base sm:text-sm">
+                <SelectValue placeholder="Sélectionnez une plateforme" />
+              </SelectTrigger>
+              <SelectContent>
+                {data.platforms.filter((platform) => platform.enable).map((platform) => (
+                  <SelectItem key={platform.id} value={platform.id}>
+                    {platform.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.platformId && <p className="text-xs sm:text-sm text-destructive">{errors.platformId.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm sm:text-base">ID de pari</Label>
+            <Select
+              value={form.watch("betId")?.toString()}
+              onValueChange={(value) => form.setValue("betId", Number(value), { shouldValidate: true })}
+              disabled={!platformId}
+            >
+              <SelectTrigger className="h-11 sm:h-10 text-base sm:text-sm">
+                <SelectValue placeholder={betIds.length ? "Sélectionnez un ID" : "Aucun ID pour cette plateforme"} />
+              </SelectTrigger>
+              <SelectContent>
+                {betIds.map((betId) => (
+                  <SelectItem key={betId.id} value={betId.id.toString()}>
+                    {betId.user_app_id}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.betId && <p className="text-xs sm:text-sm text-destructive">{errors.betId.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm sm:text-base">Réseau mobile</Label>
+            <Select
+              value={networkId?.toString()}
+              onValueChange={(value) => {
+                form.setValue("networkId", Number(value), { shouldValidate: true })
+                form.resetField("phoneId")
+              }}
+            >
+              <SelectTrigger className="h-11 sm:h-10 text-base sm:text-sm">
+                <SelectValue placeholder="Sélectionnez un réseau" />
+              </SelectTrigger>
+              <SelectContent>
+                {data.networks.map((network) => (
+                  <SelectItem key={network.id} value={network.id.toString()}>
+                    {network.public_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.networkId && <p className="text-xs sm:text-sm text-destructive">{errors.networkId.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm sm:text-base">Numéro de téléphone</Label>
+            <Select
+              value={form.watch("phoneId")?.toString()}
+              onValueChange={(value) => form.setValue("phoneId", Number(value), { shouldValidate: true })}
+              disabled={!networkId}
+            >
+              <SelectTrigger className="h-11 sm:h-10 text-base sm:text-sm">
+                <SelectValue placeholder={phones.length ? "Sélectionnez un numéro" : "Aucun numéro pour ce réseau"} />
+              </SelectTrigger>
+              <SelectContent>
+                {phones.map((phone) => (
+                  <SelectItem key={phone.id} value={phone.id.toString()}>
+                    {formatPhoneNumberForDisplay(phone.phone)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.phoneId && <p className="text-xs sm:text-sm text-destructive">{errors.phoneId.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-amount" className="text-sm sm:text-base">Montant par défaut (optionnel)</Label>
+            <Input
+              id="template-amount"
+              type="number"
+              placeholder="Montant en FCFA"
+              {...form.register("amount", { setValueAs: (value) => (value === "" || value === null ? null : Number(value)) })}
+              className="h-11 sm:h-10 text-base sm:text-sm"
+            />
+            {errors.amount && <p className="text-xs sm:text-sm text-destructive">{errors.amount.message}</p>}
+          </div>
+
+          <div className="flex gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1 bg-transparent h-11 sm:h-10 text-sm"
+            >
+              Annuler
+            </Button>
+            <Button type="submit" className="flex-1 h-11 sm:h-10 text-sm">
+              {template ? "Modifier" : "Ajouter"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,155 @@
+"use client"
+
+import type React from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { fr } from "date-fns/locale"
+import { toast } from "react-hot-toast"
+import { AlertCircle, Copy, ExternalLink, HelpCircle } from "lucide-react"
+import type { Transaction } from "@/lib/types"
+import { getSourceLabel, isFailedStatus, isPendingStatus } from "@/lib/constants"
+import { formatPhoneNumberForDisplay, getTransactionHref } from "@/lib/utils"
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import { RepeatTransactionButton } from "@/components/transaction/repeat-transaction-button"
+import { TransactionStatusBadge } from "@/components/transaction/transaction-status-badge"
+
+interface TransactionDetailSheetProps {
+  transaction: Transaction | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("fr-FR", { style: "currency", currency: "XOF", minimumFractionDigits: 0 })
+
+const formatDate = (date: string) => format(new Date(date), "dd MMM yyyy à HH:mm:ss", { locale: fr })
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 text-sm">
+      <span className="text-muted-foreground shrink-0">{label}</span>
+      <span className="font-medium text-right break-all">{children}</span>
+    </div>
+  )
+}
+
+export function TransactionDetailSheet({ transaction, open, onOpenChange }: TransactionDetailSheetProps) {
+  if (!transaction) return null
+
+  const isWithdrawal = transaction.type_trans === "withdrawal"
+  const whyWithdrawalFail = transaction.app_details?.why_withdrawal_fail
+  const trackingHref = getTransactionHref(transaction.reference)
+
+  const copyReference = async () => {
+    try {
+      await navigator.clipboard.writeText(transaction.reference)
+      toast.success("Référence copiée dans le presse-papiers")
+    } catch (error) {
+      toast.error("Copie impossible, copiez manuellement la référence.")
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex flex-wrap items-center gap-2">
+            {isWithdrawal ? "Retrait" : "Dépôt"}
+            <TransactionStatusBadge status={transaction.status} />
+          </SheetTitle>
+          <SheetDescription>{formatDate(transaction.created_at)}</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 px-4">
+          {/* Reference */}
+          <div className="rounded-md bg-muted/50 p-3">
+            <p className="text-xs text-muted-foreground">Référence</p>
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-mono text-sm break-all">{transaction.reference}</p>
+              <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={copyReference}>
+                <Copy className="h-4 w-4" />
+                <span className="sr-only">Copier la référence</span>
+              </Button>
+            </div>
+            {transaction.public_id && (
+              <p className="text-xs text-muted-foreground mt-2 break-all">ID opérateur : {transaction.public_id}</p>
+            )}
+          </div>
+
+          {/* Amounts */}
+          <div className="space-y-2">
+            <DetailRow label="Montant">{formatAmount(transaction.amount)}</DetailRow>
+            {transaction.net_payable_amout != null && (
+              <DetailRow label="Montant net">{formatAmount(transaction.net_payable_amout)}</DetailRow>
+            )}
+            {transaction.deposit_reward_amount != null && transaction.deposit_reward_amount > 0 && (
+              <DetailRow label="Bonus de dépôt">{formatAmount(transaction.deposit_reward_amount)}</DetailRow>
+            )}
+          </div>
+
+          <Separator />
+
+          {/* Details */}
+          <div className="space-y-2">
+            <DetailRow label="Plateforme">{transaction.app_details?.name || transaction.app}</DetailRow>
+            <DetailRow label="ID de pari">{transaction.user_app_id}</DetailRow>
+            <DetailRow label="Téléphone">{formatPhoneNumberForDisplay(transaction.phone_number)}</DetailRow>
+            {transaction.withdriwal_code && <DetailRow label="Code de retrait">{transaction.withdriwal_code}</DetailRow>}
+            <DetailRow label="Source">{getSourceLabel(transaction.source)}</DetailRow>
+          </div>
+
+          <Separator />
+
+          {/* Dates */}
+          <div className="space-y-2">
+            <DetailRow label="Créée le">{formatDate(transaction.created_at)}</DetailRow>
+            {transaction.wehook_receive_at && (
+              <DetailRow label="Confirmation opérateur">{formatDate(transaction.wehook_receive_at)}</DetailRow>
+            )}
+            {transaction.validated_at && <DetailRow label="Validée le">{formatDate(transaction.validated_at)}</DetailRow>}
+          </div>
+
+          {transaction.error_message && (
+            <div className="flex items-start gap-2 rounded-md bg-red-50 p-3 text-red-700">
+              <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              <p className="text-xs break-words">{transaction.error_message}</p>
+            </div>
+          )}
+
+          {isWithdrawal && isFailedStatus(transaction.status) && whyWithdrawalFail && (
+            <a
+              href={whyWithdrawalFail}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 text-sm text-primary hover:underline"
+            >
+              <HelpCircle className="h-4 w-4" />
+              Pourquoi mon retrait a-t-il échoué ?
+            </a>
+          )}
+
+          {transaction.transaction_link && (
+            <a
+              href={transaction.transaction_link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 text-sm text-primary hover:underline"
+            >
+              <ExternalLink className="h-4 w-4" />
+              {isPendingStatus(transaction.status) ? "Continuer le paiement" : "Lien de paiement"}
+            </a>
+          )}
+        </div>
+
+        <SheetFooter>
+          <RepeatTransactionButton transaction={transaction} className="h-9" />
+          <Button asChild variant="outline">
+            <Link href={trackingHref}>Suivre la transaction</Link>
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,20 @@
+import { Badge } from "@/components/ui/badge"
+import { getTransactionStatusLabel } from "@/lib/constants"
+import type { Transaction } from "@/lib/types"
+
+type BadgeVariant = "default" | "secondary" | "destructive" | "outline"
+
+const STATUS_VARIANTS: Record<string, BadgeVariant> = {
+  pending: "secondary",
+  accept: "default",
+  init_payment: "secondary",
+  error: "destructive",
+  reject: "destructive",
+  timeout: "outline",
+  cancel: "outline",
+  annuler: "outline",
+}
+
+export function TransactionStatusBadge({ status }: { status: Transaction["status"] }) {
+  return <Badge variant={STATUS_VARIANTS[status] || "outline"}>{getTransactionStatusLabel(status)}</Badge>
+}
@@ -4,6 +4,8 @@ import { useState } from "react"
 import { Loader2, AlertCircle, Clock } from "lucide-react"
 import { toast } from "react-hot-toast"
 import type { Transaction } from "@/lib/types"
+import { ApiError } from "@/lib/api"
+import { isPendingStatus } from "@/lib/constants"
 import {
   Dialog,
   DialogContent,
@@ -25,8 +27,8 @@ interface TransactionSummaryDialogProps {
   onFinalize: (reference: string) => Promise<void>
   isLoading?: boolean
   /**
-   * "pending" → affiché au chargement quand un dépôt précédent est en attente.
-   *   - Boutons : "Nouveau dépôt" (annule l'ancien) | "Finaliser"
+   * "pending" → affiché au chargement quand un dépôt ou un retrait précédent est en attente.
+   *   - Boutons : "Nouveau dépôt" / "Nouveau retrait" (annule l'ancien) | "Finaliser"
    *   - Non fermable (Escape, clic extérieur, X bloqués)
    *
    * "created" → affiché après création (non utilisé ici mais conservé pour compatibilité).
@@ -51,14 +53,16 @@ export function TransactionSummaryDialog({
   if (!transaction) return null
 
   const isPendingMode = mode === "pending"
+  const isWithdrawal = transaction.type_trans === "withdrawal"
+  const typeLabel = isWithdrawal ? "retrait" : "dépôt"
 
   const handleOpenChange = (open: boolean) => {
     if (isPendingMode) return // bloque la fermeture
     if (!open) onClose()
   }
 
-  // ── "Nouveau dépôt" (mode pending) ────────────────────────────────────────
-  const handleNewDeposit = async () => {
+  // ── "Nouveau dépôt" / "Nouveau retrait" (mode pending) ──────────────────
+  const handleNewTransaction = async () => {
     if (!transaction.reference) {
       toast.error("Référence de transaction manquante")
       return
@@ -68,12 +72,8 @@ export function TransactionSummaryDialog({
     try {
       await onCancel(transaction.reference)
       // onCancel gère le toast + fermeture
-    } catch (error: any) {
-      const errorMessage =
-        error?.originalError?.response?.data?.error ||
-        error?.originalError?.response?.data?.detail ||
-        error?.message ||
-        "Erreur lors de l'annulation de la transaction"
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : "Erreur lors de l'annulation de la transaction"
       toast.error(errorMessage)
     } finally {
       setIsSubmitting(false)
@@ -93,12 +93,8 @@ export function TransactionSummaryDialog({
       await onCancel(transaction.reference)
       toast.success("Transaction annulée avec succès")
       onClose()
-    } catch (error: any) {
-      const errorMessage =
-        error?.originalError?.response?.data?.error ||
-        error?.originalError?.response?.data?.detail ||
-        error?.message ||
-        "Erreur lors de l'annulation de la transaction"
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : "Erreur lors de l'annulation de la transaction"
       toast.error(errorMessage)
     } finally {
       setIsSubmitting(false)
@@ -118,12 +114,8 @@ export function TransactionSummaryDialog({
       await onFinalize(transaction.reference)
       toast.success("Transaction finalisée avec succès")
       onClose()
-    } catch (error: any) {
-      const errorMessage =
-        error?.originalError?.response?.data?.error ||
-        error?.originalError?.response?.data?.detail ||
-        error?.message ||
-        "Erreur lors de la finalisation de la transaction"
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : "Erreur lors de la finalisation de la transaction"
       toast.error(errorMessage)
     } finally {
       setIsSubmitting(false)
@@ -169,7 +161,7 @@ export function TransactionSummaryDialog({
           </DialogTitle>
           <DialogDescription>
             {isPendingMode
-              ? "Vous avez un dépôt en attente. Finalisez-le ou créez un nouveau dépôt."
+              ? `Vous avez un ${typeLabel} en attente. Finalisez-le ou créez un nouveau ${typeLabel}.`
               : "Votre transaction a été créée. Vous pouvez la finaliser ou l'annuler."}
           </DialogDescription>
         </DialogHeader>
@@ -212,6 +204,27 @@ export function TransactionSummaryDialog({
               <span className="font-medium">{transaction.phone_number}</span>
             </div>
 
+            {isWithdrawal && (
+              <>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Plateforme</span>
+                  <span className="font-medium">{transaction.app_details?.name || transaction.app}</span>
+                </div>
+
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">ID de pari</span>
+                  <span className="font-medium">{transaction.user_app_id}</span>
+                </div>
+
+                {transaction.withdriwal_code && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">Code de retrait</span>
+                    <span className="font-medium font-mono">{transaction.withdriwal_code}</span>
+                  </div>
+                )}
+              </>
+            )}
+
             {transaction.message && (
               <>
                 <Separator />
@@ -246,23 +259,23 @@ export function TransactionSummaryDialog({
 
         <DialogFooter className="gap-2 sm:gap-0">
           {isPendingMode ? (
-            // ── Mode pending : "Nouveau dépôt" | "Finaliser" ─────────────────
+            // ── Mode pending : "Nouveau dépôt" / "Nouveau retrait" | "Finaliser" ─
             <>
               <Button
                 variant="outline"
-                onClick={handleNewDeposit}
-                disabled={isSubmitting || isLoading || transaction.status !== "pending"}
+                onClick={handleNewTransaction}
+                disabled={isSubmitting || isLoading || !isPendingStatus(transaction.status)}
                 className="min-w-25"
               >
                 {isSubmitting && actionType === "cancel" ? (
                   <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Annulation...</>
                 ) : (
-                  "Nouveau dépôt"
+                  `Nouveau ${typeLabel}`
                 )}
               </Button>
               <Button
                 onClick={handleFinalize}
-                disabled={isSubmitting || isLoading || transaction.status !== "pending"}
+                disabled={isSubmitting || isLoading || !isPendingStatus(transaction.status)}
                 className="min-w-25"
               >
                 {isSubmitting && actionType === "finalize" ? (
@@ -278,7 +291,7 @@ export function TransactionSummaryDialog({
               <Button
                 variant="outline"
                 onClick={handleCancel}
-                disabled={isSubmitting || isLoading || transaction.status !== "pending"}
+                disabled={isSubmitting || isLoading || !isPendingStatus(transaction.status)}
                 className="min-w-25"
               >
                 {isSubmitting && actionType === "cancel" ? (
@@ -289,7 +302,7 @@ export function TransactionSummaryDialog({
               </Button>
               <Button
                 onClick={handleFinalize}
-                disabled={isSubmitting || isLoading || transaction.status !== "pending"}
+                disabled={isSubmitting || isLoading || !isPendingStatus(transaction.status)}
                 className="min-w-25"
               >
                 {isSubmitting && actionType === "finalize" ? (
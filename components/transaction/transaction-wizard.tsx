@@ -0,0 +1,358 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { toast } from "react-hot-toast"
+import { ChevronLeft, ArrowLeft } from "lucide-react"
+import { useAuth } from "@/lib/auth-context"
+import { transactionApi } from "@/lib/api-client"
+import { ApiError } from "@/lib/api"
+import { useWizardSession } from "@/hooks/use-wizard-session"
+import { useWizardStep } from "@/hooks/use-wizard-step"
+import { REPEAT_PARAM, resolveRepeatSelection, type WizardPrefill } from "@/lib/repeat-transaction"
+import {
+  EMPTY_WIZARD_VALUES,
+  getTransactionData,
+  type WizardFlow,
+  type WizardStepContext,
+  type WizardValues,
+} from "@/lib/wizard"
+import type { Transaction } from "@/lib/types"
+import { extractTimeErrorMessage, generateIdempotencyKey } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { TransactionProgressBar } from "@/components/transaction/progress-bar"
+import { ConfirmationDialog } from "@/components/transaction/confirmation-dialog"
+import { TransactionSummaryDialog } from "@/components/transaction/transaction-summary-dialog"
+import { TemplateCards } from "@/components/transaction/template-cards"
+import { ResumeWizardDialog } from "@/components/transaction/resume-wizard-dialog"
+
+interface TransactionWizardProps {
+  flow: WizardFlow
+}
+
+/**
+ * Runs a transaction flow: step navigation and validation, confirmation, pre-filling from a
+ * past transaction or a template, resuming an unfinished flow and the pending transaction guard.
+ */
+export function TransactionWizard({ flow }: TransactionWizardProps) {
+  const searchParams = useSearchParams()
+  const { sessionState } = useAuth()
+  const hooks = flow.useFlow()
+  const totalSteps = flow.steps.length
+
+  const [values, setValues] = useState<WizardValues>(EMPTY_WIZARD_VALUES)
+  // Step cards select then call onNext after a short delay, from a render that predates the selection
+  const valuesRef = useRef(values)
+  valuesRef.current = values
+
+  // ── Pending transaction check (on mount) ─────────────────────────────────
+  const [pendingTransaction, setPendingTransaction] = useState<Transaction | null>(null)
+  const [isPendingCheckDone, setIsPendingCheckDone] = useState(!flow.guardPending)
+  const [isPendingDialogOpen, setIsPendingDialogOpen] = useState(false)
+
+  // Confirmation dialog
+  const [isConfirmationOpen, setIsConfirmationOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // Kept until the flow finishes so a double tap or a retry after a timeout can't create a second transaction
+  const [idempotencyKey, setIdempotencyKey] = useState<string | null>(null)
+
+  // Past transaction the wizard is pre-filled from ("Recommencer")
+  const repeatReference = searchParams.get(REPEAT_PARAM)
+  const [isRepeatLoading, setIsRepeatLoading] = useState(Boolean(repeatReference))
+  const [shouldAutoConfirm, setShouldAutoConfirm] = useState(false)
+
+  const update = (patch: Partial<WizardValues>) => setValues((current) => ({ ...current, ...patch }))
+
+  const context: WizardStepContext = {
+    type: flow.type,
+    values,
+    update,
+    onNext: () => handleNext(),
+    flow: hooks,
+  }
+
+  // Step management, in the URL. Steps can't be reached before the ones preceding them are complete.
+  const firstIncompleteIndex = flow.steps.findIndex((flowStep) => !flowStep.isComplete(context))
+  const { currentStep, goToStep, goBack } = useWizardStep(
+    totalSteps,
+    firstIncompleteIndex === -1 ? totalSteps : firstIncompleteIndex + 1,
+  )
+  const step = flow.steps[currentStep - 1]
+
+  // Unfinished flow kept across reloads, replaced by the transaction being repeated
+  const wizardSession = useWizardSession(flow.type, { ...values, step: currentStep }, { enabled: !repeatReference })
+
+  // Any change to the transaction details makes it a new request
+  useEffect(() => {
+    setIdempotencyKey(null)
+  }, [values])
+
+  // ── Check pending transaction on mount ───────────────────────────────────
+  // Only one transaction of each type can be in progress at a time
+  useEffect(() => {
+    if (!flow.guardPending) return
+
+    const checkPendingTransaction = async () => {
+      try {
+        const pending = await transactionApi.getPendingTransaction(flow.type, { silent: true })
+        if (pending) {
+          setPendingTransaction(pending)
+          setIsPendingDialogOpen(true)
+        }
+      } catch (error) {
+        console.error("Erreur vérification transaction en attente:", error)
+      } finally {
+        setIsPendingCheckDone(true)
+      }
+    }
+    checkPendingTransaction()
+  }, [flow])
+
+  // ── Pre-fill from a past transaction, a template or an unfinished flow ───
+
+  // Goes as far as the saved choices allow, and lets the flow open the confirmation when all of them
+  // are still valid. A resumed flow goes back to the step it was left at and is never confirmed on its own.
+  const applyPrefill = (prefill: WizardPrefill, resumeStep?: number) => {
+    const prefilled: WizardValues = {
+      ...EMPTY_WIZARD_VALUES,
+      platform: prefill.platform,
+      betId: prefill.betId,
+      network: prefill.network,
+      phone: prefill.phone,
+      amount: prefill.amount,
+    }
+    setValues(prefilled)
+
+    if (prefill.invalidStep) {
+      goToStep(prefill.invalidStep)
+      if (prefill.issue) toast.error(prefill.issue)
+      return
+    }
+
+    const targetStep = resumeStep ?? totalSteps
+    goToStep(targetStep)
+    if (targetStep < totalSteps) return
+    const shouldConfirm = hooks.onPrefilled?.(prefilled) ?? false
+    if (shouldConfirm && !resumeStep && !pendingTransaction) {
+      setShouldAutoConfirm(true)
+    }
+  }
+
+  useEffect(() => {
+    if (!repeatReference || !isPendingCheckDone || hooks.isLoading) return
+    let isMounted = true
+
+    const prefill = async () => {
+      try {
+        const transaction = await transactionApi.getByReference(repeatReference, { silent: true })
+        const selection = await resolveRepeatSelection(transaction, flow.type)
+        if (isMounted) applyPrefill(selection)
+      } catch (error) {
+        console.error("Erreur reprise de transaction:", error)
+        if (isMounted) toast.error("Impossible de reprendre cette transaction")
+      } finally {
+        if (isMounted) setIsRepeatLoading(false)
+      }
+    }
+
+    prefill()
+    return () => {
+      isMounted = false
+    }
+  }, [repeatReference, isPendingCheckDone, hooks.isLoading])
+
+  const handleResume = async () => {
+    const resumed = await wizardSession.resume()
+    if (resumed) applyPrefill(resumed.prefill, resumed.step)
+  }
+
+  // Runs once the pre-filled values are rendered, after they have reset the idempotency key,
+  // and the URL has reached the last step
+  useEffect(() => {
+    if (!shouldAutoConfirm || currentStep !== totalSteps) return
+    setShouldAutoConfirm(false)
+    handleNext()
+  }, [shouldAutoConfirm, currentStep])
+
+  // ── Handlers pending dialog ───────────────────────────────────────────────
+
+  // "Nouveau dépôt" / "Nouveau retrait" → annule l'ancienne, ferme le dialog, reste sur step 1
+  const handleCancelPendingAndContinue = async (reference: string) => {
+    try {
+      await transactionApi.cancelTransaction(reference)
+      toast.success("Ancienne transaction annulée")
+      setIsPendingDialogOpen(false)
+      setPendingTransaction(null)
+    } catch (error) {
+      const errorMessage =
+        error instanceof ApiError ? error.message : "Erreur lors de l'annulation de la transaction"
+      toast.error(errorMessage)
+      throw error
+    }
+  }
+
+  // "Finaliser" → finalise l'ancienne, enchaîne le flux post-finalisation du type
+  const handleFinalizePending = async (reference: string) => {
+    const finalizedTransaction = await transactionApi.finalizeTransaction(reference)
+    setIsPendingDialogOpen(false)
+    setPendingTransaction(null)
+    await hooks.afterSubmit(finalizedTransaction, values)
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const handleNext = () => {
+    if (!step.isComplete({ ...context, values: valuesRef.current })) return
+    if (currentStep < totalSteps) {
+      goToStep(currentStep + 1)
+    } else {
+      setIdempotencyKey((key) => key ?? generateIdempotencyKey())
+      setIsConfirmationOpen(true)
+    }
+  }
+
+  const handleConfirmTransaction = async () => {
+    if (!flow.steps.every((flowStep) => flowStep.isComplete(context))) {
+      toast.error("Données manquantes pour la transaction")
+      return
+    }
+
+    if (isSubmitting) return
+
+    setIsSubmitting(true)
+    try {
+      // A transaction may have been started in another tab since the check on mount
+      if (flow.guardPending) {
+        const pending = await transactionApi.getPendingTransaction(flow.type, { silent: true })
+        if (pending) {
+          setIsConfirmationOpen(false)
+          setPendingTransaction(pending)
+          setIsPendingDialogOpen(true)
+          return
+        }
+      }
+
+      const refusal = await hooks.beforeSubmit?.(values)
+      if (refusal) {
+        setIsConfirmationOpen(false)
+        toast.error(refusal)
+        return
+      }
+
+      const transaction = await hooks.submit(values, { idempotencyKey: idempotencyKey ?? undefined })
+
+      setIdempotencyKey(null)
+      setIsConfirmationOpen(false)
+      wizardSession.finish()
+      toast.success(flow.successMessage)
+      await hooks.afterSubmit(transaction, values)
+    } catch (error: any) {
+      // Check for rate limit error (error_time_message)
+      const timeErrorMessage = extractTimeErrorMessage(error)
+      if (timeErrorMessage) {
+        toast.error(timeErrorMessage)
+      } else {
+        toast.error(flow.errorMessage)
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // ── Spinner pendant le check initial ─────────────────────────────────────
+  if (!isPendingCheckDone || hooks.isLoading || isRepeatLoading) {
+    return (
+      <div className="max-w-4xl mx-auto w-full px-3 sm:px-4 lg:px-6 flex items-center justify-center min-h-100">
+        <div className="flex flex-col items-center gap-3 text-muted-foreground">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+          <p className="text-sm">Vérification en cours...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto w-full px-3 sm:px-4 lg:px-6">
+      <div className="space-y-4 sm:space-y-5 lg:space-y-6">
+        {/* Header */}
+        <div className="pb-2 border-b border-border/50">
+          <div className="flex items-center gap-3 mb-2">
+            <Button asChild variant="ghost" size="icon" className="h-8 w-8 sm:h-9 sm:w-9">
+              <Link href="/dashboard">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-xl sm:text-2xl lg:text-3xl font-semibold tracking-tight">{flow.title}</h1>
+              <p className="text-xs sm:text-sm text-muted-foreground mt-1">{flow.description}</p>
+            </div>
+          </div>
+        </div>
+
+        {hooks.blocker ?? (
+          <>
+            {currentStep === 1 && <TemplateCards type={flow.type} onSelect={(prefill) => applyPrefill(prefill)} />}
+
+            {/* Progress Bar */}
+            <TransactionProgressBar
+              currentStep={currentStep}
+              totalSteps={totalSteps}
+              type={flow.type}
+              labels={flow.steps.map((flowStep) => flowStep.label)}
+            />
+
+            {/* Current Step */}
+            <div className="min-h-70 sm:min-h-80 lg:min-h-100 overflow-x-hidden">
+              {step.render(context)}
+            </div>
+
+            {/* Navigation */}
+            {currentStep > 1 && (
+              <div className="flex justify-start pt-2 sm:pt-3">
+                <Button variant="outline" onClick={goBack} className="flex items-center gap-2 h-9 sm:h-10 text-sm">
+                  <ChevronLeft className="h-4 w-4" />
+                  <span>Précédent</span>
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Confirmation Dialog */}
+        <ConfirmationDialog
+          isOpen={isConfirmationOpen}
+          onClose={() => setIsConfirmationOpen(false)}
+          onConfirm={handleConfirmTransaction}
+          transactionData={{ ...getTransactionData(values), withdriwal_code: values.withdriwalCode }}
+          type={flow.type}
+          platformName={values.platform?.name || ""}
+          networkName={values.network?.public_name || ""}
+          isLoading={isSubmitting || sessionState === "refreshing"}
+        />
+
+        {hooks.dialogs}
+
+        {/* ── Pending transaction dialog (au chargement) ── */}
+        <TransactionSummaryDialog
+          isOpen={isPendingDialogOpen}
+          onClose={() => {}} // bloqué — l'utilisateur doit choisir
+          transaction={pendingTransaction}
+          onCancel={handleCancelPendingAndContinue}
+          onFinalize={handleFinalizePending}
+          isLoading={false}
+          mode="pending"
+        />
+
+        {/* Offered once the pending transaction is dealt with, and never while the flow is blocked */}
+        <ResumeWizardDialog
+          type={flow.type}
+          snapshot={isPendingDialogOpen || hooks.blocker ? null : wizardSession.snapshot}
+          isResuming={wizardSession.isResuming}
+          onResume={handleResume}
+          onDiscard={wizardSession.discard}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+"use client"
+
+import { PlatformStep } from "@/components/transaction/steps/platform-step"
+import { BetIdStep } from "@/components/transaction/steps/bet-id-step"
+import { NetworkStep } from "@/components/transaction/steps/network-step"
+import { PhoneStep } from "@/components/transaction/steps/phone-step"
+import { AmountStep } from "@/components/transaction/steps/amount-step"
+import type { WizardStep } from "@/lib/wizard"
+
+export const platformStep: WizardStep = {
+  label: "Plateforme",
+  isComplete: ({ values }) => values.platform !== null,
+  render: ({ type, values, update, onNext }) => (
+    <PlatformStep
+      selectedPlatform={values.platform}
+      onSelect={(platform) => update({ platform })}
+      onNext={onNext}
+      type={type}
+    />
+  ),
+}
+
+export const betIdStep: WizardStep = {
+  label: "ID Pari",
+  isComplete: ({ values }) => values.betId !== null,
+  render: ({ values, update, onNext }) => (
+    <BetIdStep
+      selectedPlatform={values.platform}
+      selectedBetId={values.betId}
+      onSelect={(betId) => update({ betId })}
+      onNext={onNext}
+    />
+  ),
+}
+
+export const networkStep: WizardStep = {
+  label: "Réseau",
+  isComplete: ({ values }) => values.network !== null,
+  render: ({ type, values, update, onNext }) => (
+    <NetworkStep
+      selectedNetwork={values.network}
+      onSelect={(network) => update({ network })}
+      onNext={onNext}
+      type={type}
+    />
+  ),
+}
+
+export const phoneStep: WizardStep = {
+  label: "Téléphone",
+  isComplete: ({ values }) => values.phone !== null,
+  render: ({ values, update, onNext }) => (
+    <PhoneStep
+      selectedNetwork={values.network}
+      selectedPhone={values.phone}
+      onSelect={(phone) => update({ phone })}
+      onNext={onNext}
+    />
+  ),
+}
+
+/** Checks the amount against the platform's deposit or withdrawal bounds, and asks for the code of a withdrawal */
+export const amountStep: WizardStep = {
+  label: "Montant",
+  isComplete: ({ type, values, flow }) => {
+    const { platform, amount } = values
+    if (!platform || amount <= 0) return false
+    const minAmount = type === "deposit" ? platform.minimun_deposit : platform.minimun_with
+    const maxAmount = type === "deposit" ? platform.max_deposit : platform.max_win
+    if (amount < minAmount || amount > maxAmount) return false
+    if (type === "withdrawal" && values.withdriwalCode.length < 4) return false
+    return !flow.validateAmount?.(amount)
+  },
+  render: ({ type, values, update, onNext, flow }) => (
+    <AmountStep
+      amount={values.amount}
+      setAmount={(amount) => update({ amount })}
+      withdriwalCode={values.withdriwalCode}
+      setWithdriwalCode={(withdriwalCode) => update({ withdriwalCode })}
+      selectedPlatform={values.platform}
+      selectedBetId={values.betId}
+      selectedNetwork={values.network}
+      selectedPhone={values.phone}
+      type={type}
+      onNext={onNext}
+      checkLimits={flow.validateAmount}
+      remainingAllowance={flow.remainingAllowance}
+    />
+  ),
+}
+
+/** Platform, bet ID, network, phone and amount, the steps of deposits and withdrawals */
+export const TRANSACTION_STEPS = [platformStep, betIdStep, networkStep, phoneStep, amountStep]
@@ -0,0 +1,94 @@
+import * as React from 'react'
+import { useAuth } from '@/lib/auth-context'
+import {
+  checkDepositLimits,
+  fetchDepositTotals,
+  getActiveCoolOff,
+  getRemainingAllowance,
+  hasDepositLimits,
+  loadResponsibleGamblingSettings,
+  saveResponsibleGamblingSettings,
+  type DepositTotals,
+  type ResponsibleGamblingSettings,
+} from '@/lib/deposit-limits'
+
+/**
+ * The current user's deposit limits and cool-off, with the deposit totals of the
+ * running day, week and month. Totals are only loaded when a limit is set.
+ */
+export function useDepositLimits() {
+  const { user } = useAuth()
+  const [settings, setSettings] = React.useState<ResponsibleGamblingSettings | null>(null)
+  const [totals, setTotals] = React.useState<DepositTotals | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+
+  const loadTotals = React.useCallback(async () => {
+    const data = await fetchDepositTotals()
+    setTotals(data)
+    return data
+  }, [])
+
+  React.useEffect(() => {
+    if (!user) return
+    const loaded = loadResponsibleGamblingSettings(user.id)
+    setSettings(loaded)
+
+    if (!hasDepositLimits(loaded)) {
+      setIsLoading(false)
+      return
+    }
+    loadTotals()
+      .catch((error) => console.error('Erreur chargement des totaux de dépôt:', error))
+      .finally(() => setIsLoading(false))
+  }, [user, loadTotals])
+
+  const update = React.useCallback(
+    (next: ResponsibleGamblingSettings) => {
+      if (!user) return
+      saveResponsibleGamblingSettings(user.id, next)
+      setSettings(next)
+      if (hasDepositLimits(next) && !totals) {
+        loadTotals().catch((error) => console.error('Erreur chargement des totaux de dépôt:', error))
+      }
+    },
+    [user, totals, loadTotals],
+  )
+
+  /** Validation against the totals already loaded, for instant feedback while typing */
+  const validateAmount = React.useCallback(
+    (amount: number) => {
+      if (!settings) return null
+      return checkDepositLimits(amount, settings, totals ?? { daily: 0, weekly: 0, monthly: 0 })
+    },
+    [settings, totals],
+  )
+
+  /** Final check right before a deposit is created, on fresh totals */
+  const checkBeforeDeposit = React.useCallback(
+    async (amount: number) => {
+      if (!user) return null
+      const current = loadResponsibleGamblingSettings(user.id)
+      setSettings(current)
+      if (!hasDepositLimits(current)) return checkDepositLimits(amount, current, { daily: 0, weekly: 0, monthly: 0 })
+
+      try {
+        return checkDepositLimits(amount, current, await loadTotals())
+      } catch (error) {
+        console.error('Erreur vérification des limites de dépôt:', error)
+        return 'Impossible de vérifier vos limites de dépôt. Veuillez réessayer.'
+      }
+    },
+    [user, loadTotals],
+  )
+
+  return {
+    settings,
+    totals,
+    isLoading,
+    coolOffUntil: settings ? getActiveCoolOff(settings) : null,
+    remainingAllowance: settings && totals ? getRemainingAllowance(settings, totals) : null,
+    update,
+    validateAmount,
+    checkBeforeDeposit,
+  }
+}
@@ -0,0 +1,71 @@
+import * as React from 'react'
+
+const PULL_THRESHOLD = 70
+// The indicator follows the finger at half speed, up to this distance
+const MAX_PULL = 110
+
+/**
+ * Pull-to-refresh for touch devices on window-scrolled pages: pulling down while at
+ * the very top of the page past the threshold calls `onRefresh`.
+ */
+export function usePullToRefresh(onRefresh: () => Promise<unknown>) {
+  const [pullDistance, setPullDistance] = React.useState(0)
+  const [isRefreshing, setIsRefreshing] = React.useState(false)
+  const onRefreshRef = React.useRef(onRefresh)
+  const startYRef = React.useRef<number | null>(null)
+  const distanceRef = React.useRef(0)
+  const isRefreshingRef = React.useRef(false)
+
+  React.useEffect(() => {
+    onRefreshRef.current = onRefresh
+  }, [onRefresh])
+
+  React.useEffect(() => {
+    const setDistance = (distance: number) => {
+      distanceRef.current = distance
+      setPullDistance(distance)
+    }
+
+    const handleTouchStart = (event: TouchEvent) => {
+      startYRef.current = window.scrollY <= 0 && !isRefreshingRef.current ? event.touches[0].clientY : null
+    }
+
+    const handleTouchMove = (event: TouchEvent) => {
+      if (startYRef.current === null) return
+      const delta = event.touches[0].clientY - startYRef.current
+      setDistance(delta > 0 && window.scrollY <= 0 ? Math.min(delta / 2, MAX_PULL) : 0)
+    }
+
+    const handleTouchEnd = async () => {
+      if (startYRef.current === null) return
+      startYRef.current = null
+
+      if (distanceRef.current < PULL_THRESHOLD) {
+        setDistance(0)
+        return
+      }
+
+      isRefreshingRef.current = true
+      setIsRefreshing(true)
+      setDistance(PULL_THRESHOLD)
+      try {
+        await onRefreshRef.current()
+      } finally {
+        isRefreshingRef.current = false
+        setIsRefreshing(false)
+        setDistance(0)
+      }
+    }
+
+    window.addEventListener('touchstart', handleTouchStart, { passive: true })
+    window.addEventListener('touchmove', handleTouchMove, { passive: true })
+    window.addEventListener('touchend', handleTouchEnd)
+    return () => {
+      window.removeEventListener('touchstart', handleTouchStart)
+      window.removeEventListener('touchmove', handleTouchMove)
+      window.removeEventListener('touchend', handleTouchEnd)
+    }
+  }, [])
+
+  return { pullDistance, isRefreshing, isPastThreshold: pullDistance >= PULL_THRESHOLD }
+}
@@ -0,0 +1,50 @@
+import * as React from 'react'
+import { settingsApi } from '@/lib/api-client'
+import { subscribeQuery } from '@/lib/query-cache'
+import { getFeatureFlags, getReferralSettings, getSupportContacts } from '@/lib/settings'
+import type { Settings } from '@/lib/types'
+
+/**
+ * Shared access to the backend settings. Every caller goes through the same cached
+ * request, and re-renders when a background revalidation brings new values.
+ */
+export function useSettings() {
+  const [settings, setSettings] = React.useState<Settings | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<unknown>(null)
+
+  React.useEffect(() => {
+    let isMounted = true
+
+    settingsApi
+      .get({ silent: true })
+      .then((data) => {
+        if (isMounted) setSettings(data)
+      })
+      .catch((err) => {
+        console.error('Error fetching settings:', err)
+        if (isMounted) setError(err)
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false)
+      })
+
+    const unsubscribe = subscribeQuery<Settings>('settings', (data) => {
+      if (isMounted) setSettings(data)
+    })
+
+    return () => {
+      isMounted = false
+      unsubscribe()
+    }
+  }, [])
+
+  return {
+    settings,
+    isLoading,
+    error,
+    supportContacts: getSupportContacts(settings),
+    featureFlags: getFeatureFlags(settings),
+    referral: getReferralSettings(settings),
+  }
+}
@@ -0,0 +1,180 @@
+import * as React from 'react'
+import { transactionApi } from '@/lib/api-client'
+import type { RequestOptions } from '@/lib/api'
+import { toast } from 'react-hot-toast'
+import type { HistoryFilters } from '@/lib/history-filters'
+import type { PaginatedResponse, Transaction } from '@/lib/types'
+
+const PAGE_SIZE = 20
+const SNAPSHOT_KEY = 'history_snapshot'
+// Older snapshots are dropped rather than restored
+const SNAPSHOT_MAX_AGE_MS = 10 * 60 * 1000
+
+export interface HistorySnapshot {
+  /** Owner and filters the list was loaded for */
+  userId: string
+  query: string
+  transactions: Transaction[]
+  next: string | null
+  count: number
+  scrollY: number
+  measurements: [string, number][]
+  savedAt: number
+}
+
+/** Keeps the loaded list and scroll position so coming back from a detail view lands at the same place */
+export function saveHistorySnapshot(snapshot: Omit<HistorySnapshot, 'savedAt'>) {
+  try {
+    sessionStorage.setItem(SNAPSHOT_KEY, JSON.stringify({ ...snapshot, savedAt: Date.now() }))
+  } catch (error) {
+    // Storage full or unavailable: coming back will simply reload the first page
+    console.warn('Could not save the history snapshot:', error)
+  }
+}
+
+function readHistorySnapshot(userId: string, query: string): HistorySnapshot | null {
+  try {
+    const raw = sessionStorage.getItem(SNAPSHOT_KEY)
+    if (!raw) return null
+    const snapshot: HistorySnapshot = JSON.parse(raw)
+    if (snapshot.userId !== userId || snapshot.query !== query) return null
+    if (Date.now() - snapshot.savedAt > SNAPSHOT_MAX_AGE_MS) return null
+    return snapshot
+  } catch {
+    return null
+  }
+}
+
+// Fresh rows replace the ones already loaded and new ones go on top.
+// Offset pagination shifts when rows are added, so ids are de-duplicated.
+function mergeTransactions(current: Transaction[], fresh: Transaction[], position: 'top' | 'bottom') {
+  const freshById = new Map(fresh.map((transaction) => [transaction.id, transaction]))
+  const updated = current.map((transaction) => freshById.get(transaction.id) ?? transaction)
+  const knownIds = new Set(current.map((transaction) => transaction.id))
+  const added = fresh.filter((transaction) => !knownIds.has(transaction.id))
+  return position === 'top' ? [...added, ...updated] : [...updated, ...added]
+}
+
+// Empty pages followed in a row before handing back to the user
+const MAX_EMPTY_PAGES = 5
+
+async function skipEmptyPages(page: PaginatedResponse<Transaction>, options?: RequestOptions) {
+  let data = page
+  for (let skipped = 0; skipped < MAX_EMPTY_PAGES && data.results.length === 0 && data.next; skipped++) {
+    data = await transactionApi.getHistoryNext(data.next, options)
+  }
+  return data
+}
+
+/**
+ * Infinite transaction history following `PaginatedResponse.next`.
+ * The list restarts whenever `query` (the serialized filters) changes.
+ */
+export function useTransactionHistory(userId: string | undefined, query: string, params: HistoryFilters) {
+  const [transactions, setTransactions] = React.useState<Transaction[]>([])
+  const [next, setNext] = React.useState<string | null>(null)
+  const [count, setCount] = React.useState(0)
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [isLoadingMore, setIsLoadingMore] = React.useState(false)
+  const [restored, setRestored] = React.useState<HistorySnapshot | null>(null)
+  const paramsRef = React.useRef(params)
+  paramsRef.current = params
+  const transactionsRef = React.useRef(transactions)
+  transactionsRef.current = transactions
+  // Responses for a previous set of filters are ignored
+  const generationRef = React.useRef(0)
+
+  // Pages newer than an end date come back empty once filtered: a few are skipped so the list
+  // starts at the first one left, further ones wait for the user to ask for them. Silent, since
+  // the first load shows its own error and a background refresh none.
+  const fetchFirstPage = React.useCallback(async () => {
+    const options = { silent: true }
+    const data = await transactionApi.getHistory({ ...paramsRef.current, page: 1, page_size: PAGE_SIZE }, options)
+    return skipEmptyPages(data, options)
+  }, [])
+
+  /** Reloads the first page and merges it into the list without losing what is already loaded */
+  const refresh = React.useCallback(async () => {
+    const generation = generationRef.current
+    try {
+      const data = await fetchFirstPage()
+      if (generation !== generationRef.current) return
+      if (transactionsRef.current.length <= data.results.length) {
+        setTransactions(data.results)
+        setNext(data.next)
+      } else {
+        setTransactions((current) => mergeTransactions(current, data.results, 'top'))
+      }
+      setCount(data.count)
+    } catch (error) {
+      console.error('Erreur actualisation historique:', error)
+    }
+  }, [fetchFirstPage])
+
+  React.useEffect(() => {
+    if (!userId) return
+    const generation = ++generationRef.current
+
+    const snapshot = readHistorySnapshot(userId, query)
+    if (snapshot) {
+      setTransactions(snapshot.transactions)
+      setNext(snapshot.next)
+      setCount(snapshot.count)
+      setRestored(snapshot)
+      setIsLoading(false)
+      // Statuses may have moved on since the snapshot was taken
+      refresh()
+      return
+    }
+
+    setRestored(null)
+    setIsLoading(true)
+    setTransactions([])
+    fetchFirstPage()
+      .then((data) => {
+        if (generation !== generationRef.current) return
+        setTransactions(data.results)
+        setNext(data.next)
+        setCount(data.count)
+      })
+      .catch(() => toast.error("Erreur lors du chargement de l'historique"))
+      .finally(() => {
+        if (generation === generationRef.current) setIsLoading(false)
+      })
+  }, [userId, query, fetchFirstPage, refresh])
+
+  const loadMore = React.useCallback(async () => {
+    if (!next || isLoadingMore) return
+    const generation = generationRef.current
+    setIsLoadingMore(true)
+    try {
+      const data = await skipEmptyPages(await transactionApi.getHistoryNext(next))
+      if (generation !== generationRef.current) return
+      setTransactions((current) => mergeTransactions(current, data.results, 'bottom'))
+      setNext(data.next)
+      setCount(data.count)
+    } catch (error) {
+      console.error('Erreur chargement de la page suivante:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [next, isLoadingMore])
+
+  // Date ranges are also applied client-side, after the backend counted the results
+  const hasDateRange = Boolean(params.start_date || params.end_date)
+
+  return {
+    transactions,
+    next,
+    count,
+    /** Transactions matching the filters, null until a date-filtered list is fully loaded */
+    matchingCount: !hasDateRange ? count : next === null ? transactions.length : null,
+    hasMore: next !== null,
+    isLoading,
+    isLoadingMore,
+    loadMore,
+    refresh,
+    /** Snapshot the list was restored from, to put the scroll position back */
+    restored,
+  }
+}
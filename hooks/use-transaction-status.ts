@@ -0,0 +1,108 @@
+import * as React from 'react'
+import { transactionApi } from '@/lib/api-client'
+import { ApiError } from '@/lib/api'
+import { isPendingStatus } from '@/lib/constants'
+import { fcmService } from '@/lib/firebase'
+import type { Transaction } from '@/lib/types'
+
+const INITIAL_POLL_DELAY_MS = 3000
+const MAX_POLL_DELAY_MS = 30000
+const POLL_BACKOFF_FACTOR = 1.5
+
+/**
+ * Follows a transaction by reference until it leaves the pending states.
+ * Polls with a growing delay, and refetches right away when a push notification
+ * mentions the reference or when the tab becomes visible again.
+ */
+export function useTransactionStatus(reference: string) {
+  const [transaction, setTransaction] = React.useState<Transaction | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+  // A check is running, polled or asked for, while isLoading only covers the first one
+  const [isRefreshing, setIsRefreshing] = React.useState(false)
+  const [error, setError] = React.useState<ApiError | null>(null)
+  const [lastCheckedAt, setLastCheckedAt] = React.useState<Date | null>(null)
+
+  const timerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null)
+  const delayRef = React.useRef(INITIAL_POLL_DELAY_MS)
+  const controllerRef = React.useRef<AbortController | null>(null)
+
+  const refresh = React.useCallback(async () => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setIsRefreshing(true)
+
+    let keepPolling = true
+    try {
+      const data = await transactionApi.getByReference(reference, { silent: true, signal: controller.signal })
+      setTransaction(data)
+      setError(null)
+      keepPolling = isPendingStatus(data.status)
+    } catch (err) {
+      if (err instanceof ApiError && err.isAborted) return
+      setError(err instanceof ApiError ? err : null)
+      // An unknown reference won't show up later
+      keepPolling = !(err instanceof ApiError && err.kind === 'not-found')
+    } finally {
+      if (controllerRef.current === controller) {
+        setIsLoading(false)
+        setIsRefreshing(false)
+        setLastCheckedAt(new Date())
+      }
+    }
+
+    if (keepPolling && !controller.signal.aborted) {
+      const delay = delayRef.current
+      delayRef.current = Math.min(delay * POLL_BACKOFF_FACTOR, MAX_POLL_DELAY_MS)
+      timerRef.current = setTimeout(refresh, delay)
+    }
+  }, [reference])
+
+  // Something happened on the backend side: go back to polling quickly
+  const refreshNow = React.useCallback(() => {
+    delayRef.current = INITIAL_POLL_DELAY_MS
+    return refresh()
+  }, [refresh])
+
+  React.useEffect(() => {
+    delayRef.current = INITIAL_POLL_DELAY_MS
+    setIsLoading(true)
+    refresh()
+
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current)
+      controllerRef.current?.abort()
+    }
+  }, [refresh])
+
+  React.useEffect(() => {
+    const unsubscribe = fcmService.setupForegroundListener((payload) => {
+      const text = [payload.data?.reference, payload.notification?.title, payload.notification?.body, payload.data?.body]
+        .filter(Boolean)
+        .join(' ')
+      if (text.includes(reference)) refreshNow()
+    })
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') refreshNow()
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      unsubscribe()
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [reference, refreshNow])
+
+  return {
+    transaction,
+    setTransaction,
+    isLoading,
+    isRefreshing,
+    error,
+    lastCheckedAt,
+    isPending: transaction ? isPendingStatus(transaction.status) : false,
+    refresh: refreshNow,
+  }
+}
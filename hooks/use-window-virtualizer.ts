@@ -0,0 +1,130 @@
+import * as React from 'react'
+
+export interface VirtualItem {
+  index: number
+  key: string
+  start: number
+}
+
+interface WindowVirtualizerOptions {
+  count: number
+  getItemKey: (index: number) => string
+  /** Height used until an item has been measured */
+  estimateSize: number
+  /** Items rendered above and below the viewport */
+  overscan?: number
+  /** Heights measured earlier, e.g. when restoring a list */
+  initialMeasurements?: [string, number][]
+}
+
+/**
+ * Renders only the rows of a window-scrolled list that are near the viewport.
+ * Rows are measured once rendered (they don't need a fixed height) and their
+ * heights are kept by key, so prepending items doesn't shift the measurements.
+ */
+export function useWindowVirtualizer({
+  count,
+  getItemKey,
+  estimateSize,
+  overscan = 5,
+  initialMeasurements,
+}: WindowVirtualizerOptions) {
+  const containerRef = React.useRef<HTMLDivElement | null>(null)
+  const sizesRef = React.useRef(new Map<string, number>(initialMeasurements))
+  const observerRef = React.useRef<ResizeObserver | null>(null)
+  const [, forceRender] = React.useReducer((n: number) => n + 1, 0)
+  const [viewport, setViewport] = React.useState({ scrollY: 0, height: 800, containerTop: 0 })
+
+  React.useEffect(() => {
+    let frame: number | null = null
+
+    const update = () => {
+      frame = null
+      const container = containerRef.current
+      setViewport({
+        scrollY: window.scrollY,
+        height: window.innerHeight,
+        containerTop: container ? container.getBoundingClientRect().top + window.scrollY : 0,
+      })
+    }
+    const schedule = () => {
+      if (frame === null) frame = requestAnimationFrame(update)
+    }
+
+    update()
+    window.addEventListener('scroll', schedule, { passive: true })
+    window.addEventListener('resize', schedule)
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame)
+      window.removeEventListener('scroll', schedule)
+      window.removeEventListener('resize', schedule)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    observerRef.current = new ResizeObserver((entries) => {
+      let changed = false
+      entries.forEach((entry) => {
+        // Rows scrolled out of the window report a zero size once detached
+        if (!entry.target.isConnected) {
+          observerRef.current?.unobserve(entry.target)
+          return
+        }
+        const key = (entry.target as HTMLElement).dataset.key
+        if (!key) return
+        const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.target.getBoundingClientRect().height
+        if (sizesRef.current.get(key) !== height) {
+          sizesRef.current.set(key, height)
+          changed = true
+        }
+      })
+      if (changed) forceRender()
+    })
+    return () => observerRef.current?.disconnect()
+  }, [])
+
+  /** Ref callback for each rendered row, which must carry a `data-key` attribute */
+  const measureElement = React.useCallback((element: HTMLElement | null) => {
+    if (element) observerRef.current?.observe(element)
+  }, [])
+
+  const starts: number[] = []
+  let totalSize = 0
+  for (let index = 0; index < count; index++) {
+    starts.push(totalSize)
+    totalSize += sizesRef.current.get(getItemKey(index)) ?? estimateSize
+  }
+
+  const visibleTop = viewport.scrollY - viewport.containerTop
+  const visibleBottom = visibleTop + viewport.height
+
+  // First row ending below the top of the viewport
+  let low = 0
+  let high = count - 1
+  let first = count
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    const end = middle + 1 < count ? starts[middle + 1] : totalSize
+    if (end > visibleTop) {
+      first = middle
+      high = middle - 1
+    } else {
+      low = middle + 1
+    }
+  }
+
+  // Last row starting above the bottom of the viewport
+  let last = first
+  while (last < count - 1 && starts[last + 1] < visibleBottom) last++
+
+  const items: VirtualItem[] = []
+  const startIndex = Math.max(0, first - overscan)
+  const endIndex = Math.min(count - 1, last + overscan)
+  for (let index = startIndex; index <= endIndex; index++) {
+    items.push({ index, key: getItemKey(index), start: starts[index] })
+  }
+
+  const getMeasurements = React.useCallback(() => Array.from(sizesRef.current.entries()), [])
+
+  return { containerRef, items, totalSize, measureElement, getMeasurements }
+}
@@ -0,0 +1,93 @@
+import * as React from 'react'
+import { toast } from 'react-hot-toast'
+import { useAuth } from '@/lib/auth-context'
+import { fetchTemplateReferenceData, resolveTemplate } from '@/lib/templates'
+import {
+  clearWizardSnapshot,
+  readWizardSnapshot,
+  saveWizardSnapshot,
+  type WizardSnapshot,
+} from '@/lib/wizard-session'
+import type { RepeatableType, WizardPrefill } from '@/lib/repeat-transaction'
+import type { Network, Platform, UserAppId, UserPhone } from '@/lib/types'
+
+interface WizardSessionState {
+  step: number
+  platform: Platform | null
+  betId: UserAppId | null
+  network: Network | null
+  phone: UserPhone | null
+  amount: number
+}
+
+/**
+ * Persists the wizard choices for `type` while the user fills them in and offers to
+ * resume an unfinished flow found on mount. Pass `enabled: false` when the page is
+ * pre-filled some other way, which discards the unfinished flow.
+ */
+export function useWizardSession(type: RepeatableType, state: WizardSessionState, { enabled = true } = {}) {
+  const { user } = useAuth()
+  const [snapshot, setSnapshot] = React.useState<WizardSnapshot | null>(null)
+  const [isResuming, setIsResuming] = React.useState(false)
+  // Nothing is saved until the prompt is answered, so the empty wizard can't overwrite the flow to resume
+  const [isSaving, setIsSaving] = React.useState(false)
+  const enabledRef = React.useRef(enabled)
+
+  React.useEffect(() => {
+    if (!user) return
+    const found = enabledRef.current ? readWizardSnapshot(type, user.id) : null
+    if (!found) clearWizardSnapshot(type)
+    setSnapshot(found)
+    setIsSaving(!found)
+  }, [user, type])
+
+  React.useEffect(() => {
+    if (!user || !isSaving) return
+    if (!state.platform) {
+      clearWizardSnapshot(type)
+      return
+    }
+    saveWizardSnapshot(type, {
+      userId: user.id,
+      step: state.step,
+      platformName: state.platform.name,
+      platformId: state.platform.id,
+      betId: state.betId?.id ?? null,
+      networkId: state.network?.id ?? null,
+      phoneId: state.phone?.id ?? null,
+      amount: state.amount || null,
+    })
+  }, [user, isSaving, type, state.step, state.platform, state.betId, state.network, state.phone, state.amount])
+
+  /** Checks the saved choices against fresh API data, null when they couldn't be loaded */
+  const resume = React.useCallback(async (): Promise<{ prefill: WizardPrefill; step: number } | null> => {
+    if (!snapshot) return null
+    setIsResuming(true)
+    try {
+      const data = await fetchTemplateReferenceData(type)
+      return { prefill: resolveTemplate(snapshot, type, data), step: snapshot.step }
+    } catch (error) {
+      console.error('Erreur reprise du parcours:', error)
+      toast.error('Impossible de reprendre votre saisie')
+      return null
+    } finally {
+      setIsResuming(false)
+      setSnapshot(null)
+      setIsSaving(true)
+    }
+  }, [snapshot, type])
+
+  const discard = React.useCallback(() => {
+    clearWizardSnapshot(type)
+    setSnapshot(null)
+    setIsSaving(true)
+  }, [type])
+
+  /** Once the transaction is created there is nothing left to resume */
+  const finish = React.useCallback(() => {
+    setIsSaving(false)
+    clearWizardSnapshot(type)
+  }, [type])
+
+  return { snapshot, isResuming, resume, discard, finish }
+}
@@ -0,0 +1,86 @@
+import * as React from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { STEP_PARAM } from '@/lib/wizard'
+
+/**
+ * Wizard step kept in the `?step=` query parameter, so that browser back and forward,
+ * including the Android back button, move between steps. A step past `maxStep`, the
+ * first one left to fill in, redirects to it.
+ */
+export function useWizardStep(totalSteps: number, maxStep: number) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const requestedStep = Math.min(Math.max(Math.trunc(Number(searchParams.get(STEP_PARAM))) || 1, 1), totalSteps)
+  const currentStep = Math.min(requestedStep, maxStep)
+
+  // Steps of the history entries created by the wizard, and which one is shown. "Précédent"
+  // only goes back in history when that entry is the previous step.
+  const entriesRef = React.useRef<number[]>([currentStep])
+  const positionRef = React.useRef(0)
+
+  const getHref = React.useCallback(
+    (step: number) => {
+      const params = new URLSearchParams(searchParams.toString())
+      params.set(STEP_PARAM, String(step))
+      return `${pathname}?${params.toString()}`
+    },
+    [pathname, searchParams],
+  )
+
+  const replaceStep = React.useCallback(
+    (step: number) => {
+      entriesRef.current[positionRef.current] = step
+      router.replace(getHref(step), { scroll: false })
+    },
+    [router, getHref],
+  )
+
+  const goToStep = React.useCallback(
+    (step: number) => {
+      if (step === currentStep) return
+      entriesRef.current = [...entriesRef.current.slice(0, positionRef.current + 1), step]
+      positionRef.current += 1
+      router.push(getHref(step), { scroll: false })
+    },
+    [currentStep, router, getHref],
+  )
+
+  const goBack = React.useCallback(() => {
+    if (currentStep <= 1) return
+    const position = positionRef.current
+    if (position > 0 && entriesRef.current[position - 1] === currentStep - 1) {
+      router.back()
+    } else {
+      replaceStep(currentStep - 1)
+    }
+  }, [currentStep, router, replaceStep])
+
+  // Follows browser back and forward through the entries the wizard created
+  React.useEffect(() => {
+    const handlePopState = () => {
+      const step = Number(new URLSearchParams(window.location.search).get(STEP_PARAM)) || 1
+      const position = positionRef.current
+      if (position > 0 && entriesRef.current[position - 1] === step) {
+        positionRef.current = position - 1
+      } else if (entriesRef.current[position + 1] === step) {
+        positionRef.current = position + 1
+      }
+    }
+
+    window.addEventListener('popstate', handlePopState)
+    return () => {
+      window.removeEventListener('popstate', handlePopState)
+    }
+  }, [])
+
+  // Missing or out of range step, or earlier steps left incomplete
+  React.useEffect(() => {
+    if (searchParams.get(STEP_PARAM) !== String(currentStep)) {
+      replaceStep(currentStep)
+    }
+  }, [searchParams, currentStep, replaceStep])
+
+  return { currentStep, goToStep, goBack }
+}
@@ -0,0 +1,116 @@
+import { format, startOfMonth, subMonths } from "date-fns"
+import { fr } from "date-fns/locale"
+import { isPendingStatus } from "./constants"
+import type { Network, Transaction } from "./types"
+
+// Aggregations of the transaction history for the analytics page.
+// Amounts only count accepted transactions: money that actually moved.
+
+export interface MonthlyTotals {
+  month: string
+  label: string
+  deposit: number
+  withdrawal: number
+}
+
+export interface NetworkSuccessRate {
+  network: string
+  total: number
+  accepted: number
+  rate: number
+}
+
+export interface ProcessingTime {
+  type: "deposit" | "withdrawal"
+  averageMs: number | null
+  count: number
+}
+
+export interface PlatformTotals {
+  platform: string
+  deposit: number
+  withdrawal: number
+}
+
+const isAccepted = (transaction: Transaction) => transaction.status === "accept"
+
+/** Deposit and withdrawal totals for each of the last `months` months, oldest first */
+export function getMonthlyTotals(transactions: Transaction[], months = 6, now = new Date()): MonthlyTotals[] {
+  const buckets = new Map<string, MonthlyTotals>()
+  for (let offset = months - 1; offset >= 0; offset--) {
+    const date = startOfMonth(subMonths(now, offset))
+    const month = format(date, "yyyy-MM")
+    buckets.set(month, { month, label: format(date, "MMM yy", { locale: fr }), deposit: 0, withdrawal: 0 })
+  }
+
+  transactions.filter(isAccepted).forEach((transaction) => {
+    const bucket = buckets.get(format(new Date(transaction.created_at), "yyyy-MM"))
+    if (!bucket) return
+    if (transaction.type_trans === "deposit") bucket.deposit += transaction.amount
+    if (transaction.type_trans === "withdrawal") bucket.withdrawal += transaction.amount
+  })
+
+  return Array.from(buckets.values())
+}
+
+/** Share of finished transactions that were accepted, per network. Pending ones are left out. */
+export function getSuccessRateByNetwork(transactions: Transaction[], networks: Network[]): NetworkSuccessRate[] {
+  const names = new Map(networks.map((network) => [network.id, network.public_name]))
+  const rates = new Map<number, NetworkSuccessRate>()
+
+  transactions
+    .filter((transaction) => !isPendingStatus(transaction.status))
+    .forEach((transaction) => {
+      const rate = rates.get(transaction.network) ?? {
+        network: names.get(transaction.network) ?? `Réseau ${transaction.network}`,
+        total: 0,
+        accepted: 0,
+        rate: 0,
+      }
+      rate.total += 1
+      if (isAccepted(transaction)) rate.accepted += 1
+      rates.set(transaction.network, rate)
+    })
+
+  return Array.from(rates.values())
+    .map((rate) => ({ ...rate, rate: Math.round((rate.accepted / rate.total) * 100) }))
+    .sort((a, b) => b.total - a.total)
+}
+
+/** Average time between creation and validation of accepted transactions */
+export function getProcessingTimes(transactions: Transaction[]): ProcessingTime[] {
+  return (["deposit", "withdrawal"] as const).map((type) => {
+    const durations = transactions
+      .filter((transaction) => transaction.type_trans === type && isAccepted(transaction) && transaction.validated_at)
+      .map((transaction) => new Date(transaction.validated_at!).getTime() - new Date(transaction.created_at).getTime())
+      .filter((duration) => duration >= 0)
+
+    return {
+      type,
+      count: durations.length,
+      averageMs: durations.length ? durations.reduce((sum, duration) => sum + duration, 0) / durations.length : null,
+    }
+  })
+}
+
+export function getPlatformTotals(transactions: Transaction[]): PlatformTotals[] {
+  const totals = new Map<string, PlatformTotals>()
+
+  transactions.filter(isAccepted).forEach((transaction) => {
+    const platform = transaction.app_details?.name || transaction.app
+    const total = totals.get(platform) ?? { platform, deposit: 0, withdrawal: 0 }
+    if (transaction.type_trans === "deposit") total.deposit += transaction.amount
+    if (transaction.type_trans === "withdrawal") total.withdrawal += transaction.amount
+    totals.set(platform, total)
+  })
+
+  return Array.from(totals.values()).sort((a, b) => b.deposit + b.withdrawal - (a.deposit + a.withdrawal))
+}
+
+export function formatDuration(ms: number) {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 1) return `${Math.max(1, Math.round(ms / 1000))} s`
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  return `${hours} h ${String(minutes % 60).padStart(2, "0")}`
+}
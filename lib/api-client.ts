@@ -1,5 +1,25 @@
-import api from "./api"
+import { format } from "date-fns"
+import api, { ApiError, refreshAccessToken, requestConfig, type RequestOptions } from "./api"
 import { formatPhoneNumber } from "./utils"
+import { cachedQuery, STALE_TIMES } from "./query-cache"
+import { PENDING_STATUSES } from "./constants"
+import {
+  parseResponse,
+  paginatedSchema,
+  authResponseSchema,
+  userSchema,
+  networkSchema,
+  userPhoneSchema,
+  platformSchema,
+  userAppIdSchema,
+  searchUserResponseSchema,
+  transactionSchema,
+  notificationSchema,
+  bonusSchema,
+  advertisementSchema,
+  settingsSchema,
+  couponSchema,
+} from "./schemas"
 import type {
   AuthResponse,
   Network,
@@ -17,8 +37,18 @@ import type {
   User,
 } from "./types"
 
+// A create replayed with the same idempotency key answers 409 with the transaction
+// created the first time: treat it as a success and hand that transaction back.
+function resolveDuplicateTransaction(error: unknown): Transaction {
+  if (error instanceof ApiError && error.status === 409) {
+    const original = error.data?.transaction ?? error.data
+    if (original?.reference) return parseResponse(transactionSchema, original, "duplicate transaction")
+  }
+  throw error
+}
+
 export const authApi = {
-  login: async (email_or_phone: string, password: string) => {
+  login: async (email_or_phone: string, password: string, options?: RequestOptions) => {
     // Format phone number if it looks like a phone (contains digits and possibly +)
     const formattedInput = /^[\d\s+()-]+$/.test(email_or_phone)
       ? formatPhoneNumber(email_or_phone)
@@ -27,8 +57,8 @@ export const authApi = {
     const { data } = await api.post<AuthResponse>("/auth/login", {
       email_or_phone: formattedInput,
       password,
-    })
-    return data
+    }, requestConfig(options))
+    return parseResponse(authResponseSchema, data, "/auth/login")
   },
 
   register: async (userData: {
@@ -39,7 +69,7 @@ export const authApi = {
     password: string
     re_password: string
     referral_code?: string
-  }) => {
+  }, options?: RequestOptions) => {
     const payload: any = {
       ...userData,
       phone: formatPhoneNumber(userData.phone),
@@ -48,18 +78,18 @@ export const authApi = {
     if (userData.referral_code) {
       payload.referral_code = userData.referral_code
     }
-    const { data } = await api.post("/auth/registration", payload)
+    const { data } = await api.post("/auth/registration", payload, requestConfig(options))
     return data
   },
 
-  refreshToken: async (refresh: string) => {
-    const { data } = await api.post("/auth/token/refresh/", { refresh })
-    return data
+  refreshToken: async () => {
+    const access = await refreshAccessToken()
+    return { access }
   },
 
-  getProfile: async () => {
-    const { data } = await api.get<User>("/auth/me")
-    return data
+  getProfile: async (options?: RequestOptions) => {
+    const { data } = await api.get<User>("/auth/me", requestConfig(options))
+    return parseResponse(userSchema, data, "/auth/me")
   },
 
   updateProfile: async (profileData: {
@@ -67,31 +97,31 @@ export const authApi = {
     last_name: string
     email: string
     phone: string
-  }) => {
+  }, options?: RequestOptions) => {
     const { data } = await api.post<User>("/auth/edit", {
       ...profileData,
       phone: formatPhoneNumber(profileData.phone),
-    })
-    return data
+    }, requestConfig(options))
+    return parseResponse(userSchema, data, "/auth/edit")
   },
 
   changePassword: async (passwordData: {
     old_password: string
     new_password: string
     confirm_new_password: string
-  }) => {
+  }, options?: RequestOptions) => {
     const { data } = await api.post("/auth/change_password", {
       old_password: passwordData.old_password,
       new_password: passwordData.new_password,
       confirm_new_password: passwordData.confirm_new_password,
-    })
+    }, requestConfig(options))
     return data
   },
 
-  sendOtp: async (email: string) => {
+  sendOtp: async (email: string, options?: RequestOptions) => {
     const { data } = await api.post("/auth/send_otp", {
       email,
-    })
+    }, requestConfig(options))
     return data
   },
 
@@ -99,117 +129,144 @@ export const authApi = {
     otp: string
     new_password: string
     confirm_new_password: string
-  }) => {
+  }, options?: RequestOptions) => {
     const { data } = await api.post("/auth/reset_password", {
       otp: resetData.otp,
       new_password: resetData.new_password,
       confirm_new_password: resetData.confirm_new_password,
-    })
+    }, requestConfig(options))
     return data
   },
 }
 
 export const networkApi = {
-  getAll: async (type?: "deposit" | "withdrawal") => {
+  getAll: async (type?: "deposit" | "withdrawal", options?: RequestOptions) => {
     const url = type
       ? `/mobcash/network?type=${type}`
       : "/mobcash/network"
-    const { data } = await api.get<Network[]>(url)
-    return data
+    // Shared requests can't be aborted by a single caller, so the signal is not forwarded
+    return cachedQuery(`networks:${type ?? "all"}`, async () => {
+      const { data } = await api.get<Network[]>(url, requestConfig({ ...options, signal: undefined }))
+      return parseResponse(networkSchema.array(), data, "/mobcash/network")
+    }, STALE_TIMES.networks)
   },
 }
 
 export const phoneApi = {
-  getAll: async (network?: number) => {
+  getAll: async (network?: number, options?: RequestOptions) => {
     const url = network
       ? `/mobcash/user-phone/?network=${network}`
       : "/mobcash/user-phone/"
-    const { data } = await api.get<UserPhone[]>(url)
-    return data
+    const { data } = await api.get<UserPhone[]>(url, requestConfig(options))
+    return parseResponse(userPhoneSchema.array(), data, "/mobcash/user-phone/")
   },
 
-  create: async (phone: string, network: number) => {
+  create: async (phone: string, network: number, options?: RequestOptions) => {
     const { data } = await api.post<UserPhone>("/mobcash/user-phone/", {
       phone: formatPhoneNumber(phone),
       network,
-    })
-    return data
+    }, requestConfig(options))
+    return parseResponse(userPhoneSchema, data, "/mobcash/user-phone/")
   },
 
-  update: async (id: number, phone: string, network: number) => {
+  update: async (id: number, phone: string, network: number, options?: RequestOptions) => {
     const { data } = await api.patch<UserPhone>(`/mobcash/user-phone/${id}/`, {
       phone: formatPhoneNumber(phone),
       network,
-    })
-    return data
+    }, requestConfig(options))
+    return parseResponse(userPhoneSchema, data, "/mobcash/user-phone/")
   },
 
-  delete: async (id: number) => {
-    await api.delete(`/mobcash/user-phone/${id}/`)
+  delete: async (id: number, options?: RequestOptions) => {
+    await api.delete(`/mobcash/user-phone/${id}/`, requestConfig(options))
   },
 }
 
 export const platformApi = {
-  getAll: async (type?: "deposit" | "withdrawal") => {
+  getAll: async (type?: "deposit" | "withdrawal", options?: RequestOptions) => {
     const url = type
       ? `/mobcash/plateform?type=${type}`
       : "/mobcash/plateform"
-    const { data } = await api.get<Platform[]>(url)
-    return data
+    return cachedQuery(`platforms:${type ?? "all"}`, async () => {
+      const { data } = await api.get<Platform[]>(url, requestConfig({ ...options, signal: undefined }))
+      return parseResponse(platformSchema.array(), data, "/mobcash/plateform")
+    }, STALE_TIMES.platforms)
   },
 }
 
 export const userAppIdApi = {
-  getAll: async () => {
-    const { data } = await api.get<UserAppId[]>("/mobcash/user-app-id")
-    return data
+  getAll: async (options?: RequestOptions) => {
+    const { data } = await api.get<UserAppId[]>("/mobcash/user-app-id", requestConfig(options))
+    return parseResponse(userAppIdSchema.array(), data, "/mobcash/user-app-id")
   },
 
-  getByPlatform: async (bet_app: string) => {
-    const { data } = await api.get<UserAppId[]>(`/mobcash/user-app-id?app_name=${bet_app}`)
-    return data
+  getByPlatform: async (bet_app: string, options?: RequestOptions) => {
+    const { data } = await api.get<UserAppId[]>(`/mobcash/user-app-id?app_name=${bet_app}`, requestConfig(options))
+    return parseResponse(userAppIdSchema.array(), data, "/mobcash/user-app-id")
   },
 
-  create: async (user_app_id: string, app: string) => {
+  create: async (user_app_id: string, app: string, options?: RequestOptions) => {
     const { data } = await api.post<UserAppId>("/mobcash/user-app-id/", {
       user_app_id,
       app_name: app,
-    })
-    return data
+    }, requestConfig(options))
+    return parseResponse(userAppIdSchema, data, "/mobcash/user-app-id/")
   },
 
-  update: async (id: number, user_app_id: string, app: string) => {
+  update: async (id: number, user_app_id: string, app: string, options?: RequestOptions) => {
     const { data } = await api.patch<UserAppId>(`/mobcash/user-app-id/${id}/`, {
       user_app_id,
       app_name: app,
-    })
-    return data
+    }, requestConfig(options))
+    return parseResponse(userAppIdSchema, data, "/mobcash/user-app-id/")
   },
 
-  delete: async (id: number) => {
-    await api.delete(`/mobcash/user-app-id/${id}/`)
+  delete: async (id: number, options?: RequestOptions) => {
+    await api.delete(`/mobcash/user-app-id/${id}/`, requestConfig(options))
   },
 
-  searchUser: async (appId: string, betId: string) => {
+  searchUser: async (appId: string, betId: string, options?: RequestOptions) => {
     const { data } = await api.post<SearchUserResponse>("/mobcash/search-user", {
       app_id: appId,
       userid: betId,
-    })
-    return data
+    }, requestConfig(options))
+    return parseResponse(searchUserResponseSchema, data, "/mobcash/search-user")
   },
 }
 
+// start_date/end_date are sent to the backend but applied here as well, since nothing guarantees
+// it filters on them. The history comes newest first, so a page reaching past start_date is the last.
+function applyDateRange(page: PaginatedResponse<Transaction>, start?: string | null, end?: string | null) {
+  if (!start && !end) return page
+  const day = (transaction: Transaction) => format(new Date(transaction.created_at), "yyyy-MM-dd")
+  const oldest = page.results[page.results.length - 1]
+  return {
+    ...page,
+    results: page.results.filter((transaction) => (!start || day(transaction) >= start) && (!end || day(transaction) <= end)),
+    next: start && oldest && day(oldest) < start ? null : page.next,
+  }
+}
+
+export interface TransactionHistoryParams {
+  page?: number
+  page_size?: number
+  user?: string
+  type_trans?: "deposit" | "withdrawal"
+  status?: "pending" | "init_payment" | "accept" | "reject" | "timeout"
+  source?: string
+  network?: number
+  search?: string
+  /** yyyy-MM-dd, inclusive */
+  start_date?: string
+  end_date?: string
+}
+
+const FULL_HISTORY_PAGE_SIZE = 100
+// Hard stop so a huge history can't keep an export or a total running forever
+const MAX_FULL_HISTORY_PAGES = 50
+
 export const transactionApi = {
-  getHistory: async (params?: {
-    page?: number
-    page_size?: number
-    user?: string
-    type_trans?: "deposit" | "withdrawal"
-    status?: "pending" | "accept" | "reject" | "timeout"
-    source?: string
-    network?: number
-    search?: string
-  }) => {
+  getHistory: async (params?: TransactionHistoryParams, options?: RequestOptions) => {
     const queryParams = new URLSearchParams()
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -220,8 +277,22 @@ export const transactionApi = {
     }
     const { data } = await api.get<PaginatedResponse<Transaction>>(
       `/mobcash/transaction-history?${queryParams.toString()}`,
+      requestConfig(options),
     )
-    return data
+    const page = parseResponse(paginatedSchema(transactionSchema), data, "/mobcash/transaction-history")
+    return applyDateRange(page, params?.start_date, params?.end_date)
+  },
+
+  // Follows PaginatedResponse.next: its query string carries the page (or cursor) to load
+  getHistoryNext: async (next: string, options?: RequestOptions) => {
+    const query = next.includes("?") ? next.slice(next.indexOf("?") + 1) : ""
+    const { data } = await api.get<PaginatedResponse<Transaction>>(
+      `/mobcash/transaction-history?${query}`,
+      requestConfig(options),
+    )
+    const page = parseResponse(paginatedSchema(transactionSchema), data, "/mobcash/transaction-history")
+    const params = new URLSearchParams(query)
+    return applyDateRange(page, params.get("start_date"), params.get("end_date"))
   },
 
   createDeposit: async (depositData: {
@@ -231,12 +302,16 @@ export const transactionApi = {
     user_app_id: string
     network: number
     source: string
-  }) => {
-    const { data } = await api.post<Transaction>("/mobcash/transaction-deposit", {
-      ...depositData,
-      phone_number: formatPhoneNumber(depositData.phone_number),
-    })
-    return data
+  }, options?: RequestOptions) => {
+    try {
+      const { data } = await api.post<Transaction>("/mobcash/transaction-deposit", {
+        ...depositData,
+        phone_number: formatPhoneNumber(depositData.phone_number),
+      }, requestConfig(options))
+      return parseResponse(transactionSchema, data, "/mobcash/transaction-deposit")
+    } catch (error) {
+      return resolveDuplicateTransaction(error)
+    }
   },
 
   createWithdrawal: async (withdrawalData: {
@@ -247,60 +322,120 @@ export const transactionApi = {
     network: number
     withdriwal_code: string
     source: string
-  }) => {
-    const { data } = await api.post<Transaction>("/mobcash/transaction-withdrawal", {
-      ...withdrawalData,
-      phone_number: formatPhoneNumber(withdrawalData.phone_number),
-    })
-    return data
+  }, options?: RequestOptions) => {
+    try {
+      const { data } = await api.post<Transaction>("/mobcash/transaction-withdrawal", {
+        ...withdrawalData,
+        phone_number: formatPhoneNumber(withdrawalData.phone_number),
+      }, requestConfig(options))
+      return parseResponse(transactionSchema, data, "/mobcash/transaction-withdrawal")
+    } catch (error) {
+      return resolveDuplicateTransaction(error)
+    }
   },
-  getLastTransaction: async () => {
-    const { data } = await api.get<Transaction>("/mobcash/last-transaction")
-    return data
+  getLastTransaction: async (options?: RequestOptions) => {
+    const { data } = await api.get<Transaction>("/mobcash/last-transaction", requestConfig(options))
+    return parseResponse(transactionSchema, data, "/mobcash/last-transaction")
   },
 
-  cancelTransaction: async (reference: string) => {
-    const { data } = await api.post("/mobcash/cancel-transaction", { reference })
-    return data
+  // There is no detail endpoint: the last transaction covers the usual case of a transaction
+  // that was just created, the history search covers older ones
+  getByReference: async (reference: string, options?: RequestOptions) => {
+    try {
+      const last = await transactionApi.getLastTransaction(options)
+      if (last.reference === reference) return last
+    } catch (error) {
+      if (!(error instanceof ApiError && error.kind === "not-found")) throw error
+    }
+
+    const history = await transactionApi.getHistory({ search: reference, page_size: 10 }, options)
+    const transaction = history.results.find((item) => item.reference === reference)
+    if (!transaction) {
+      throw new ApiError("not-found", "Transaction introuvable", { status: 404 })
+    }
+    return transaction
   },
 
-  finalizeTransaction: async (reference: string) => {
-    const { data } = await api.post<Transaction>("/mobcash/finalize-transaction-user", { reference })
+  /**
+   * Pages through the history with the given filters. `truncated` is set when MAX_FULL_HISTORY_PAGES
+   * was reached before the end of the history, callers must not treat the list as complete then.
+   */
+  getAllHistory: async (
+    filters: Omit<TransactionHistoryParams, "page" | "page_size">,
+    onProgress?: (loaded: number, total: number | null) => void,
+  ): Promise<{ transactions: Transaction[]; truncated: boolean }> => {
+    const transactions: Transaction[] = []
+    // The backend count ignores the date range applied client-side
+    const isCountKnown = !filters.start_date && !filters.end_date
+
+    for (let page = 1; page <= MAX_FULL_HISTORY_PAGES; page++) {
+      const data = await transactionApi.getHistory({ ...filters, page, page_size: FULL_HISTORY_PAGE_SIZE })
+      transactions.push(...data.results)
+      onProgress?.(transactions.length, isCountKnown ? data.count : null)
+      // A page can come back empty once filtered by date, only the missing next link ends the history
+      if (!data.next) return { transactions, truncated: false }
+    }
+
+    return { transactions, truncated: true }
+  },
+
+  // The last transaction alone misses a pending one followed by a transaction of the other type.
+  // Every status the backend can still move forward counts, the most recent one is returned.
+  getPendingTransaction: async (type: "deposit" | "withdrawal", options?: RequestOptions) => {
+    const pages = await Promise.all(
+      PENDING_STATUSES.map((status) => transactionApi.getHistory({ type_trans: type, status, page_size: 1 }, options)),
+    )
+    const pending = pages.flatMap((page) => page.results)
+    pending.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    return pending[0] ?? null
+  },
+
+  cancelTransaction: async (reference: string, options?: RequestOptions) => {
+    const { data } = await api.post("/mobcash/cancel-transaction", { reference }, requestConfig(options))
     return data
   },
+
+  finalizeTransaction: async (reference: string, options?: RequestOptions) => {
+    const { data } = await api.post<Transaction>("/mobcash/finalize-transaction-user", { reference }, requestConfig(options))
+    return parseResponse(transactionSchema, data, "/mobcash/finalize-transaction-user")
+  },
 }
 
 export const notificationApi = {
-  getAll: async (page = 1) => {
-    const { data } = await api.get<PaginatedResponse<Notification>>(`/mobcash/notification?page=${page}`)
-    return data
+  getAll: async (page = 1, options?: RequestOptions) => {
+    const { data } = await api.get<PaginatedResponse<Notification>>(`/mobcash/notification?page=${page}`, requestConfig(options))
+    return parseResponse(paginatedSchema(notificationSchema), data, "/mobcash/notification")
   },
 }
 
 export const bonusApi = {
-  getAll: async (page = 1) => {
-    const { data } = await api.get<PaginatedResponse<Bonus>>(`/mobcash/bonus?page=${page}`)
-    return data
+  getAll: async (page = 1, options?: RequestOptions) => {
+    const { data } = await api.get<PaginatedResponse<Bonus>>(`/mobcash/bonus?page=${page}`, requestConfig(options))
+    return parseResponse(paginatedSchema(bonusSchema), data, "/mobcash/bonus")
   },
 }
 
 export const advertisementApi = {
-  get: async () => {
-    const { data } = await api.get<PaginatedResponse<Advertisement>>("/mobcash/ann")
-    return data
+  get: async (options?: RequestOptions) => {
+    return cachedQuery("advertisements", async () => {
+      const { data } = await api.get<PaginatedResponse<Advertisement>>("/mobcash/ann", requestConfig({ ...options, signal: undefined }))
+      return parseResponse(paginatedSchema(advertisementSchema), data, "/mobcash/ann")
+    }, STALE_TIMES.advertisements)
   },
 }
 
 export const settingsApi = {
-  get: async () => {
-    const { data } = await api.get<Settings>("/mobcash/setting")
-    return data
+  get: async (options?: RequestOptions) => {
+    return cachedQuery("settings", async () => {
+      const { data } = await api.get<Settings>("/mobcash/setting", requestConfig({ ...options, signal: undefined }))
+      return parseResponse(settingsSchema, data, "/mobcash/setting")
+    }, STALE_TIMES.settings)
   },
 }
 
 export const couponApi = {
-  getAll: async (page = 1) => {
-    const { data } = await api.get<PaginatedResponse<Coupon>>(`/mobcash/coupon?page=${page}`)
-    return data
+  getAll: async (page = 1, options?: RequestOptions) => {
+    const { data } = await api.get<PaginatedResponse<Coupon>>(`/mobcash/coupon?page=${page}`, requestConfig(options))
+    return parseResponse(paginatedSchema(couponSchema), data, "/mobcash/coupon")
   },
 }
@@ -1,92 +1,434 @@
-import axios from "axios"
+import axios, { type AxiosError, type AxiosRequestConfig } from "axios"
 import { toast } from "react-hot-toast"
+import { parseTokenExpiry } from "./utils"
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    _silent?: boolean
+    _retry?: boolean
+    _retryCount?: number
+    _maxRetries?: number
+    _onRetry?: (attempt: number, error: ApiError) => void
+  }
+}
+
+/** Per-call options accepted by every api-client method */
+export interface RequestOptions {
+  /** Never toast errors for this call; the caller handles or ignores them */
+  silent?: boolean
+  signal?: AbortSignal
+  /** Timeout in milliseconds */
+  timeout?: number
+  /** Automatic retries for GETs (defaults to MAX_GET_RETRIES, ignored for other methods) */
+  retries?: number
+  /** Called before each automatic retry, e.g. to show "Nouvelle tentative…" */
+  onRetry?: (attempt: number, error: ApiError) => void
+  /** Sent as Idempotency-Key so a replayed create returns the original transaction */
+  idempotencyKey?: string
+}
+
+export function requestConfig(options?: RequestOptions): AxiosRequestConfig {
+  if (!options) return {}
+  return {
+    _silent: options.silent,
+    _maxRetries: options.retries,
+    _onRetry: options.onRetry,
+    signal: options.signal,
+    timeout: options.timeout,
+    headers: options.idempotencyKey ? { "Idempotency-Key": options.idempotencyKey } : undefined,
+  }
+}
 
 const api = axios.create({
   baseURL: process.env.NEXT_PUBLIC_BASE_URL,
-  headers: {
-    'Cache-Control': 'no-cache, no-store, must-revalidate',
-    'Pragma': 'no-cache',
-    'Expires': '0'
-  }
 })
 
+// Money-sensitive endpoints always bypass every cache (browser, proxies and our own).
+// Other GETs are revalidated with ETag / Last-Modified when the backend sends them,
+// and reference data additionally goes through the TTL cache in query-cache.ts.
+const CACHE_BUSTED_ENDPOINTS = [
+  "/mobcash/last-transaction",
+  "/mobcash/transaction-history",
+  "/mobcash/bonus",
+  "/auth/me",
+]
+
+interface ConditionalEntry {
+  etag?: string
+  lastModified?: string
+  data: unknown
+}
+
+// Last validated response per GET url, used to answer 304 Not Modified
+const conditionalCache = new Map<string, ConditionalEntry>()
+
+function isCacheBusted(url?: string) {
+  const path = (url ?? "").split("?")[0]
+  return CACHE_BUSTED_ENDPOINTS.some((endpoint) => path.startsWith(endpoint))
+}
+
+function isGet(config: AxiosRequestConfig) {
+  return (config.method ?? "get").toLowerCase() === "get"
+}
+
+export function clearHttpCache() {
+  conditionalCache.clear()
+}
+
 function detectLang(text: string) {
   const frenchWords = ["le", "la", "de", "pas", "pour", "avec", "est", "une", "des"]
   const score = frenchWords.filter((w) => text.toLowerCase().includes(w)).length
   return score > 1 ? "fr" : "en"
 }
 
-api.interceptors.request.use((config) => {
+export type ApiErrorKind = "network" | "auth" | "validation" | "rate-limit" | "not-found" | "server"
+
+const NETWORK_ERROR_MESSAGE = "Erreur de connexion. Vérifiez votre connexion internet et réessayez."
+const FALLBACK_ERROR_MESSAGE = "Une erreur est survenue. Veuillez réessayer."
+// Keys the backend uses for the global message rather than for a form field
+const MESSAGE_KEYS = ["details", "detail", "error", "message", "error_time_message"]
+
+/**
+ * Error every api-client call rejects with.
+ * Pages branch on `kind` and read `fieldErrors` / `retryAfterMs` instead of digging in the axios response.
+ */
+export class ApiError extends Error {
+  kind: ApiErrorKind
+  status: number | null
+  data: any
+  fieldErrors: Record<string, string[]>
+  retryAfterMs: number | null
+  isAborted: boolean
+  /** Automatic retries made before giving up */
+  retryCount: number
+  originalError?: AxiosError
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: {
+      status?: number | null
+      data?: any
+      fieldErrors?: Record<string, string[]>
+      retryAfterMs?: number | null
+      isAborted?: boolean
+      originalError?: AxiosError
+    } = {},
+  ) {
+    super(message)
+    this.name = "ApiError"
+    this.kind = kind
+    this.status = options.status ?? null
+    this.data = options.data ?? null
+    this.fieldErrors = options.fieldErrors ?? {}
+    this.retryAfterMs = options.retryAfterMs ?? null
+    this.isAborted = options.isAborted ?? false
+    this.retryCount = 0
+    this.originalError = options.originalError
+  }
+
+  static fromAxiosError(error: AxiosError<any>): ApiError {
+    if (axios.isCancel(error)) {
+      return new ApiError("network", "Requête annulée", { isAborted: true, originalError: error })
+    }
+    if (!error.response) {
+      return new ApiError("network", NETWORK_ERROR_MESSAGE, { originalError: error })
+    }
+
+    const { status, data, headers } = error.response
+    const fieldErrors = parseFieldErrors(data)
+    const retryAfterMs = parseRetryAfter(headers?.["retry-after"], data?.error_time_message)
+
+    const backendMsg =
+      data?.details ||
+      data?.detail ||
+      data?.error ||
+      data?.message ||
+      (typeof data === "string" && data ? data : null) ||
+      Object.values(fieldErrors)[0]?.[0] ||
+      FALLBACK_ERROR_MESSAGE
+
+    let kind: ApiErrorKind
+    if (status === 429 || data?.error_time_message) kind = "rate-limit"
+    else if (status === 401 || status === 403) kind = "auth"
+    else if (status === 404) kind = "not-found"
+    else if (status >= 500) kind = "server"
+    else kind = "validation"
+
+    return new ApiError(kind, String(backendMsg), { status, data, fieldErrors, retryAfterMs, originalError: error })
+  }
+}
+
+function parseFieldErrors(data: any): Record<string, string[]> {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return {}
+  const fieldErrors: Record<string, string[]> = {}
+  Object.entries(data).forEach(([key, value]) => {
+    if (MESSAGE_KEYS.includes(key)) return
+    if (typeof value === "string") fieldErrors[key] = [value]
+    else if (Array.isArray(value) && value.every((item) => typeof item === "string")) fieldErrors[key] = value
+  })
+  return fieldErrors
+}
+
+// Retry-After is either seconds or an HTTP date; error_time_message looks like ["0 M:8 S"]
+function parseRetryAfter(header: unknown, errorTimeMessage: unknown): number | null {
+  if (typeof header === "string" && header) {
+    const seconds = Number(header)
+    if (!Number.isNaN(seconds)) return seconds * 1000
+    const date = Date.parse(header)
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+  }
+  if (Array.isArray(errorTimeMessage) && typeof errorTimeMessage[0] === "string") {
+    const match = errorTimeMessage[0].match(/(\d+)\s*M[:\s]*(\d+)\s*S/)
+    if (match) return (parseInt(match[1], 10) * 60 + parseInt(match[2], 10)) * 1000
+  }
+  return null
+}
+
+const MAX_GET_RETRIES = 3
+const RETRY_BASE_DELAY_MS = 500
+// Past this, a Retry-After is better surfaced to the user than waited out silently
+const MAX_RETRY_DELAY_MS = 10 * 1000
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504]
+
+// Only idempotent GETs are retried; POSTs such as createDeposit never are
+function isRetryable(error: ApiError, config?: AxiosRequestConfig) {
+  if (!config || !isGet(config) || error.isAborted) return false
+  return error.kind === "network" || (error.status !== null && RETRYABLE_STATUSES.includes(error.status))
+}
+
+// Exponential backoff with full jitter, unless the backend told us how long to wait
+function getRetryDelay(attempt: number, error: ApiError) {
+  if (error.retryAfterMs !== null) return error.retryAfterMs
+  return Math.random() * RETRY_BASE_DELAY_MS * 2 ** attempt
+}
+
+function wait(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener?.("abort", () => {
+      clearTimeout(timer)
+      reject(new ApiError("network", "Requête annulée", { isAborted: true }))
+    })
+  })
+}
+
+/**
+ * Decides whether the interceptor shows an error as a toast or leaves it to the calling page.
+ */
+function shouldToastError(error: ApiError, config?: AxiosRequestConfig) {
+  if (config?._silent || error.isAborted) return false
+  // Pages format the countdown themselves with extractTimeErrorMessage
+  if (error.kind === "rate-limit") return false
+  // A replayed idempotency key is resolved into the original transaction by api-client
+  if (error.status === 409 && config?.headers?.["Idempotency-Key"]) return false
+  return true
+}
+
+export const TOKEN_EXP_KEY = "token_exp"
+// Only the session is dropped on logout: deposit limits, cool-offs and saved templates are
+// kept per user in localStorage too and must survive it
+const AUTH_STORAGE_KEYS = ["access_token", "refresh_token", "user_data", TOKEN_EXP_KEY]
+
+export function clearAuthStorage() {
+  AUTH_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key))
+}
+// Refresh this long before the access token actually expires
+const EXPIRY_MARGIN_MS = 60 * 1000
+
+// Single in-flight refresh shared by every request that hits a 401 at the same time
+let refreshPromise: Promise<string> | null = null
+let isLoggingOut = false
+
+type TokenRefreshListener = (accessToken: string, expiresAt: number | null) => void
+const tokenRefreshListeners = new Set<TokenRefreshListener>()
+
+export function onTokenRefreshed(listener: TokenRefreshListener) {
+  tokenRefreshListeners.add(listener)
+  return () => {
+    tokenRefreshListeners.delete(listener)
+  }
+}
+
+export function storeTokenExpiry(accessToken: string, exp?: string | number | null) {
+  const expiresAt = parseTokenExpiry(accessToken, exp)
+  if (expiresAt) {
+    localStorage.setItem(TOKEN_EXP_KEY, String(expiresAt))
+  } else {
+    localStorage.removeItem(TOKEN_EXP_KEY)
+  }
+  return expiresAt
+}
+
+export function getTokenExpiry(): number | null {
+  const stored = Number(localStorage.getItem(TOKEN_EXP_KEY))
+  return stored > 0 ? stored : null
+}
+
+function isTokenExpiring() {
+  const expiresAt = getTokenExpiry()
+  return expiresAt !== null && expiresAt - EXPIRY_MARGIN_MS <= Date.now()
+}
+
+// Web Locks are shared by every tab of the origin: only one of them posts the refresh token,
+// which the backend may rotate and invalidate for the others
+const REFRESH_LOCK = "auth-token-refresh"
+
+async function withRefreshLock(task: () => Promise<string>): Promise<string> {
+  if (typeof navigator === "undefined" || !navigator.locks) return task()
+  return await navigator.locks.request(REFRESH_LOCK, task)
+}
+
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    const staleToken = localStorage.getItem("access_token")
+    refreshPromise = withRefreshLock(async () => {
+      // Another tab may have refreshed while this one waited for the lock
+      const storedToken = localStorage.getItem("access_token")
+      if (storedToken && storedToken !== staleToken && !isTokenExpiring()) {
+        const expiresAt = getTokenExpiry()
+        tokenRefreshListeners.forEach((listener) => listener(storedToken, expiresAt))
+        return storedToken
+      }
+
+      const refresh = localStorage.getItem("refresh_token")
+      if (!refresh) throw new ApiError("auth", "Session expirée. Veuillez vous reconnecter.")
+      const res = await axios
+        .post(`${process.env.NEXT_PUBLIC_BASE_URL}auth/refresh`, { refresh })
+        .catch((error) => Promise.reject(ApiError.fromAxiosError(error)))
+      const newToken: string = res.data.access
+      localStorage.setItem("access_token", newToken)
+      // Some backends rotate the refresh token as well
+      if (res.data.refresh) localStorage.setItem("refresh_token", res.data.refresh)
+      const expiresAt = storeTokenExpiry(newToken, res.data.exp)
+      tokenRefreshListeners.forEach((listener) => listener(newToken, expiresAt))
+      return newToken
+    }).finally(() => {
+      refreshPromise = null
+    })
+  }
+  return refreshPromise
+}
+
+function forceLogout() {
+  if (isLoggingOut) return
+  isLoggingOut = true
+  clearHttpCache()
+  clearAuthStorage()
+  sessionStorage.clear()
+  window.location.href = "/login"
+}
+
+api.interceptors.request.use(async (config) => {
+  // Hold new requests while a refresh is running so they don't go out with the stale token,
+  // and refresh up front when we already know the token is about to expire
+  if (refreshPromise || (localStorage.getItem("access_token") && isTokenExpiring())) {
+    try {
+      await refreshAccessToken()
+    } catch {
+      // Let the request go out; the 401 handler takes care of the logout
+    }
+  }
+
   const token = localStorage.getItem("access_token")
   if (token) config.headers.Authorization = `Bearer ${token}`
-  
-  // Ensure fresh data with cache busting
-  config.headers['Cache-Control'] = 'no-cache, no-store, must-revalidate'
-  config.headers['Pragma'] = 'no-cache'
-  config.headers['Expires'] = '0'
-  
-  // Add timestamp to prevent caching
-  if (config.params) {
-    config.params._t = Date.now()
-  } else {
-    config.params = { _t: Date.now() }
+
+  if (!isGet(config)) return config
+
+  if (isCacheBusted(config.url)) {
+    // Ensure fresh data with cache busting
+    config.headers['Cache-Control'] = 'no-cache, no-store, must-revalidate'
+    config.headers['Pragma'] = 'no-cache'
+    config.headers['Expires'] = '0'
+
+    // Add timestamp to prevent caching
+    if (config.params) {
+      config.params._t = Date.now()
+    } else {
+      config.params = { _t: Date.now() }
+    }
+    return config
   }
-  
+
+  // Conditional GET: let the backend answer 304 when nothing changed
+  const cached = conditionalCache.get(api.getUri(config))
+  if (cached?.etag) config.headers['If-None-Match'] = cached.etag
+  else if (cached?.lastModified) config.headers['If-Modified-Since'] = cached.lastModified
+  config.validateStatus = (status) => (status >= 200 && status < 300) || status === 304
+
   return config
 })
 
 api.interceptors.response.use(
-  (res) => res,
+  (res) => {
+    if (!isGet(res.config) || isCacheBusted(res.config.url)) return res
+
+    const key = api.getUri(res.config)
+    if (res.status === 304) {
+      const cached = conditionalCache.get(key)
+      return cached ? { ...res, status: 200, data: cached.data } : res
+    }
+
+    const etag = res.headers["etag"]
+    const lastModified = res.headers["last-modified"]
+    if (etag || lastModified) {
+      conditionalCache.set(key, { etag, lastModified, data: res.data })
+    }
+    return res
+  },
   async (error) => {
     const original = error.config
-    
+    const apiError = ApiError.fromAxiosError(error)
+    apiError.retryCount = original?._retryCount ?? 0
+
+    if (isRetryable(apiError, original)) {
+      const attempt = apiError.retryCount
+      const maxRetries = original._maxRetries ?? MAX_GET_RETRIES
+      const delay = getRetryDelay(attempt, apiError)
+      if (attempt < maxRetries && delay <= MAX_RETRY_DELAY_MS) {
+        original._retryCount = attempt + 1
+        original._onRetry?.(attempt + 1, apiError)
+        await wait(delay, original.signal)
+        return api(original)
+      }
+    }
+
     // Handle network errors (no response from server)
-    if (!error.response) {
-      const networkErrorMsg = "Erreur de connexion. Vérifiez votre connexion internet et réessayez."
-      // Only show toast for network errors if it's not a silent request
-      if (!original?._silent) {
-        toast.error(networkErrorMsg)
+    if (apiError.kind === "network") {
+      if (shouldToastError(apiError, original)) {
+        toast.error(apiError.message)
       }
-      return Promise.reject(error)
+      return Promise.reject(apiError)
     }
-    
+
     if (error.response?.status === 401 && !original._retry) {
       original._retry = true
       try {
-        const refresh = localStorage.getItem("refresh_token")
-        const res = await axios.post(`${process.env.NEXT_PUBLIC_BASE_URL}auth/refresh`, { refresh })
-        const newToken = res.data.access
-        localStorage.setItem("access_token", newToken)
+        // Every concurrent 401 waits on the same refresh, then replays with the new token.
+        // If another request already refreshed since this one was sent, reuse that token.
+        const currentToken = localStorage.getItem("access_token")
+        const newToken =
+          currentToken && original.headers.Authorization !== `Bearer ${currentToken}`
+            ? currentToken
+            : await refreshAccessToken()
         original.headers.Authorization = `Bearer ${newToken}`
         return api(original)
-      } catch {
-        localStorage.clear()
-        window.location.href = "/login"
+      } catch (refreshError) {
+        if (refreshError instanceof ApiError && refreshError.kind !== "auth") {
+          // The session may still be valid: keep the tokens so the next request can refresh again
+          if (shouldToastError(refreshError, original)) toast.error(refreshError.message)
+          return Promise.reject(refreshError)
+        }
+        forceLogout()
+        return Promise.reject(apiError)
       }
     }
 
-    // Skip showing toast for error_time_message - let page-level handlers show formatted message
-    if (error.response?.data?.error_time_message) {
-      return Promise.reject(error)
-    }
-
-    const defaultLang = "fr"
-    const fallback =
-      defaultLang === "fr" ? "Une erreur est survenue. Veuillez réessayer." : "An unexpected error occurred."
-
-    const backendMsg =
-      error.response?.data?.details ||
-      error.response?.data?.detail ||
-      error.response?.data?.error ||
-      error.response?.data?.message ||
-      (typeof error.response?.data === "string" ? error.response.data : fallback)
-
-    const lang = detectLang(backendMsg)
-    // Only show toast if not a silent request
-    if (!original?._silent) {
-      toast.error(backendMsg, { style: { direction: "ltr" } })
+    const lang = detectLang(apiError.message)
+    if (shouldToastError(apiError, original)) {
+      toast.error(apiError.message, { style: { direction: "ltr" } })
     }
-    return Promise.reject(error)
+    return Promise.reject(apiError)
   },
 )
 
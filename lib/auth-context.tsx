@@ -1,15 +1,44 @@
 "use client"
 
 import type React from "react"
-import { createContext, useContext, useState, useEffect } from "react"
+import { createContext, useContext, useState, useEffect, useRef } from "react"
 import { useRouter } from "next/navigation"
 import type { User } from "./types"
+import {
+  refreshAccessToken,
+  onTokenRefreshed,
+  storeTokenExpiry,
+  getTokenExpiry,
+  clearHttpCache,
+  clearAuthStorage,
+  ApiError,
+  TOKEN_EXP_KEY,
+} from "./api"
+import { invalidateQueries } from "./query-cache"
+
+export type SessionState = "active" | "refreshing" | "expired"
+
+// Refresh the access token this long before it expires
+const REFRESH_AHEAD_MS = 2 * 60 * 1000
+// Delay before trying again when the refresh couldn't reach the server
+const REFRESH_RETRY_MS = 15 * 1000
+
+// Previous value of user_data in a storage event, which can be missing or not JSON
+function getStoredUserId(value: string | null): string | null {
+  try {
+    return value ? JSON.parse(value)?.id ?? null : null
+  } catch {
+    return null
+  }
+}
 
 interface AuthContextType {
   user: User | null
   isLoading: boolean
   isHydrated: boolean
-  login: (accessToken: string, refreshToken: string, userData: User) => void
+  expiresAt: number | null
+  sessionState: SessionState
+  login: (accessToken: string, refreshToken: string, userData: User, exp?: string) => void
   logout: () => void
 }
 
@@ -19,16 +48,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isHydrated, setIsHydrated] = useState(false)
+  const [expiresAt, setExpiresAt] = useState<number | null>(null)
+  const [sessionState, setSessionState] = useState<SessionState>("active")
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
   const router = useRouter()
 
   useEffect(() => {
     // Mark as hydrated first
     setIsHydrated(true)
-    
+
     // Then check localStorage
     const accessToken = localStorage.getItem("access_token")
     const userData = localStorage.getItem("user_data")
-    
+
     console.log("AuthProvider useEffect - accessToken:", accessToken)
     console.log("AuthProvider useEffect - userData:", userData)
 
@@ -37,30 +69,152 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         const parsedUser = JSON.parse(userData)
         console.log("Parsed user data:", parsedUser)
         setUser(parsedUser)
+        setExpiresAt(getTokenExpiry() ?? storeTokenExpiry(accessToken))
       } catch (error) {
         console.error("Failed to parse user data:", error)
-        localStorage.clear()
+        clearAuthStorage()
       }
     }
     setIsLoading(false)
   }, [])
 
-  const login = (accessToken: string, refreshToken: string, userData: User) => {
+  // Keep expiresAt in sync with refreshes done by the axios interceptor
+  useEffect(() => {
+    return onTokenRefreshed((_, newExpiresAt) => {
+      setExpiresAt(newExpiresAt)
+      setSessionState("active")
+    })
+  }, [])
+
+  // Mirror login, logout, token refreshes and profile updates made in other tabs.
+  // localStorage is the shared source of truth, so its storage events are enough.
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== localStorage) return
+
+      // Logout in another tab removes the access token, a full localStorage.clear() has a null key
+      if (event.key === null || (event.key === "access_token" && !event.newValue)) {
+        sessionStorage.clear()
+        invalidateQueries()
+        clearHttpCache()
+        setUser(null)
+        setExpiresAt(null)
+        setSessionState("expired")
+        router.push("/login")
+        return
+      }
+
+      if (event.key === "user_data" && event.newValue) {
+        try {
+          const nextUser: User = JSON.parse(event.newValue)
+          // Another account logged in: nothing cached for the previous one may be served to it
+          if (getStoredUserId(event.oldValue) !== nextUser.id) {
+            invalidateQueries()
+            clearHttpCache()
+          }
+          setUser(nextUser)
+          setSessionState("active")
+          // Logged in from another tab while this one sits on an auth page
+          if (!event.oldValue && ["/login", "/signup"].includes(window.location.pathname)) {
+            router.push("/dashboard")
+          }
+        } catch (error) {
+          console.error("Failed to parse user data from another tab:", error)
+        }
+        return
+      }
+
+      // Another tab refreshed the token: reuse it and reschedule from the new expiry
+      if (event.key === TOKEN_EXP_KEY) {
+        setExpiresAt(getTokenExpiry())
+        setSessionState("active")
+      }
+    }
+
+    window.addEventListener("storage", handleStorage)
+    return () => window.removeEventListener("storage", handleStorage)
+  }, [router])
+
+  const silentRefresh = async () => {
+    // Another tab may have refreshed just before this timer fired
+    const storedExpiry = getTokenExpiry()
+    if (storedExpiry && storedExpiry - REFRESH_AHEAD_MS > Date.now()) {
+      setExpiresAt(storedExpiry)
+      return
+    }
+
+    setSessionState("refreshing")
+    try {
+      await refreshAccessToken()
+      // expiresAt and sessionState are updated by the onTokenRefreshed listener
+    } catch (error) {
+      console.error("Silent token refresh failed:", error)
+      if (error instanceof ApiError && error.kind === "auth") {
+        setSessionState("expired")
+        logout()
+        return
+      }
+      // A dropped connection, typically when coming back from the Mobile Money app, doesn't end
+      // the session: the token is refreshed ahead of its expiry, so there is time to try again
+      setSessionState("active")
+      if (refreshTimer.current) clearTimeout(refreshTimer.current)
+      refreshTimer.current = setTimeout(silentRefresh, REFRESH_RETRY_MS)
+    }
+  }
+
+  // Schedule a silent refresh shortly before the token expires
+  useEffect(() => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current)
+    if (!user || !expiresAt) return
+
+    const delay = Math.max(0, expiresAt - REFRESH_AHEAD_MS - Date.now())
+    refreshTimer.current = setTimeout(silentRefresh, delay)
+
+    // Mobile browsers throttle timers in background tabs: re-check when the tab comes back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible" && expiresAt - REFRESH_AHEAD_MS <= Date.now()) {
+        silentRefresh()
+      }
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+
+    return () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [user, expiresAt])
+
+  const login = (accessToken: string, refreshToken: string, userData: User, exp?: string) => {
     console.log("Login called with:", { accessToken, refreshToken, userData })
+    if (user?.id !== userData.id) {
+      invalidateQueries()
+      clearHttpCache()
+    }
     localStorage.setItem("access_token", accessToken)
     localStorage.setItem("refresh_token", refreshToken)
     localStorage.setItem("user_data", JSON.stringify(userData))
     setUser(userData)
+    setExpiresAt(exp ? storeTokenExpiry(accessToken, exp) : getTokenExpiry() ?? storeTokenExpiry(accessToken))
+    setSessionState("active")
     console.log("User set to:", userData)
   }
 
   const logout = () => {
-    localStorage.clear()
+    clearAuthStorage()
+    // Per-tab UI state (saved history list...) holds account data too
+    sessionStorage.clear()
+    invalidateQueries()
+    clearHttpCache()
     setUser(null)
+    setExpiresAt(null)
     router.push("/login")
   }
 
-  return <AuthContext.Provider value={{ user, isLoading, isHydrated, login, logout }}>{children}</AuthContext.Provider>
+  return (
+    <AuthContext.Provider value={{ user, isLoading, isHydrated, expiresAt, sessionState, login, logout }}>
+      {children}
+    </AuthContext.Provider>
+  )
 }
 
 export function useAuth() {
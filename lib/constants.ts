@@ -8,10 +8,15 @@ export const TYPE_TRANS = [
 
 // Transaction Status
 export const TRANS_STATUS = [
-  ["init_payment", "En entente"],
-  ["accept", "Accept"],
+  ["init_payment", "En attente"],
+  ["accept", "Accepté"],
   ["error", "Erreur"],
-  ["pending", "Pendind"],
+  ["pending", "En attente"],
+  ["reject", "Rejeté"],
+  ["timeout", "Expiré"],
+  ["cancel", "Annulé"],
+  // The API sometimes returns the French spelling
+  ["annuler", "Annulé"],
 ] as const
 
 // Source Choices
@@ -73,6 +78,16 @@ export const getApiLabel = (api: ApiType): string => {
   return found ? found[1] : api
 }
 
+// Statuses the backend can still move forward (to accept, error, timeout...)
+export const PENDING_STATUSES = ["pending", "init_payment"] as const
+
+export const isPendingStatus = (status: string): boolean => (PENDING_STATUSES as readonly string[]).includes(status)
+
+// Statuses of a transaction that went through but did not succeed (a cancellation is not a failure)
+export const FAILED_STATUSES: readonly string[] = ["error", "reject", "timeout"]
+
+export const isFailedStatus = (status: string): boolean => FAILED_STATUSES.includes(status)
+
 // Constants for common values
 export const TRANSACTION_TYPES = {
   DEPOSIT: "deposit" as const,
@@ -0,0 +1,201 @@
+import { addHours, format, isAfter, min, startOfDay, startOfMonth, startOfWeek } from "date-fns"
+import { isPendingStatus } from "./constants"
+import { transactionApi } from "./api-client"
+import type { Transaction } from "./types"
+
+// Responsible-gambling safeguards chosen by the user: deposit caps per period and a
+// cool-off during which no deposit can be made. The API has no endpoint for them, so
+// they are kept per user in localStorage and enforced by the deposit flow.
+
+export type LimitPeriod = "daily" | "weekly" | "monthly"
+
+export type DepositLimits = Record<LimitPeriod, number | null>
+
+export type DepositTotals = Record<LimitPeriod, number>
+
+export interface PendingLimitChange {
+  period: LimitPeriod
+  /** New limit, null when the limit is being removed */
+  amount: number | null
+  effectiveAt: string
+}
+
+export interface ResponsibleGamblingSettings {
+  limits: DepositLimits
+  pendingChanges: PendingLimitChange[]
+  coolOffUntil: string | null
+}
+
+export const LIMIT_PERIODS: [LimitPeriod, string][] = [
+  ["daily", "journalière"],
+  ["weekly", "hebdomadaire"],
+  ["monthly", "mensuelle"],
+]
+
+// Lowering a limit applies at once, raising or removing it only after this delay
+export const LIMIT_INCREASE_DELAY_HOURS = 72
+
+export const COOL_OFF_OPTIONS: [number, string][] = [
+  [24, "24 heures"],
+  [24 * 7, "7 jours"],
+  [24 * 30, "30 jours"],
+  [24 * 182, "6 mois"],
+]
+
+const STORAGE_PREFIX = "responsible_gambling_"
+
+const DEFAULT_SETTINGS: ResponsibleGamblingSettings = {
+  limits: { daily: null, weekly: null, monthly: null },
+  pendingChanges: [],
+  coolOffUntil: null,
+}
+
+const formatAmount = (amount: number) => `${amount.toLocaleString()} FCFA`
+
+/** Applies the pending changes whose waiting period is over */
+function applyDueChanges(settings: ResponsibleGamblingSettings, now: Date): ResponsibleGamblingSettings {
+  const due = settings.pendingChanges.filter((change) => !isAfter(new Date(change.effectiveAt), now))
+  if (due.length === 0) return settings
+
+  const limits = { ...settings.limits }
+  due.forEach((change) => {
+    limits[change.period] = change.amount
+  })
+  return { ...settings, limits, pendingChanges: settings.pendingChanges.filter((change) => !due.includes(change)) }
+}
+
+export function loadResponsibleGamblingSettings(userId: string, now = new Date()): ResponsibleGamblingSettings {
+  let stored = DEFAULT_SETTINGS
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + userId)
+    if (raw) stored = { ...DEFAULT_SETTINGS, ...JSON.parse(raw) }
+  } catch {
+    // Unreadable settings are treated as none set
+  }
+
+  const settings = applyDueChanges(stored, now)
+  if (settings !== stored) saveResponsibleGamblingSettings(userId, settings)
+  return settings
+}
+
+export function saveResponsibleGamblingSettings(userId: string, settings: ResponsibleGamblingSettings) {
+  localStorage.setItem(STORAGE_PREFIX + userId, JSON.stringify(settings))
+}
+
+/**
+ * Sets the limit for a period. A stricter limit replaces the current one right away;
+ * a higher limit or no limit at all is queued behind the waiting period.
+ */
+export function updateDepositLimit(
+  settings: ResponsibleGamblingSettings,
+  period: LimitPeriod,
+  amount: number | null,
+  now = new Date(),
+): ResponsibleGamblingSettings {
+  const current = settings.limits[period]
+  const pendingChanges = settings.pendingChanges.filter((change) => change.period !== period)
+
+  if (amount === current) return { ...settings, pendingChanges }
+
+  const isStricter = amount !== null && (current === null || amount < current)
+  if (isStricter) {
+    return { ...settings, limits: { ...settings.limits, [period]: amount }, pendingChanges }
+  }
+
+  return {
+    ...settings,
+    pendingChanges: [
+      ...pendingChanges,
+      { period, amount, effectiveAt: addHours(now, LIMIT_INCREASE_DELAY_HOURS).toISOString() },
+    ],
+  }
+}
+
+/** Starts a cool-off. An ongoing one can be extended but never shortened. */
+export function startCoolOff(settings: ResponsibleGamblingSettings, hours: number, now = new Date()) {
+  const until = addHours(now, hours)
+  const current = getActiveCoolOff(settings, now)
+  return { ...settings, coolOffUntil: (current && isAfter(current, until) ? current : until).toISOString() }
+}
+
+export function getActiveCoolOff(settings: ResponsibleGamblingSettings, now = new Date()): Date | null {
+  if (!settings.coolOffUntil) return null
+  const until = new Date(settings.coolOffUntil)
+  return isAfter(until, now) ? until : null
+}
+
+export function hasDepositLimits(settings: ResponsibleGamblingSettings) {
+  return LIMIT_PERIODS.some(([period]) => settings.limits[period] !== null)
+}
+
+export function getPeriodStart(period: LimitPeriod, now = new Date()) {
+  switch (period) {
+    case "daily":
+      return startOfDay(now)
+    case "weekly":
+      return startOfWeek(now, { weekStartsOn: 1 })
+    case "monthly":
+      return startOfMonth(now)
+  }
+}
+
+/** Deposits counted against the limits: accepted ones and those that may still go through */
+export function getDepositTotals(transactions: Transaction[], now = new Date()): DepositTotals {
+  const totals: DepositTotals = { daily: 0, weekly: 0, monthly: 0 }
+  transactions
+    .filter((transaction) => transaction.type_trans === "deposit")
+    .filter((transaction) => transaction.status === "accept" || isPendingStatus(transaction.status))
+    .forEach((transaction) => {
+      const createdAt = new Date(transaction.created_at)
+      LIMIT_PERIODS.forEach(([period]) => {
+        if (!isAfter(getPeriodStart(period, now), createdAt)) totals[period] += transaction.amount
+      })
+    })
+  return totals
+}
+
+export async function fetchDepositTotals(now = new Date()): Promise<DepositTotals> {
+  // The week can start in the previous month, so load from whichever period starts first
+  const start = min([getPeriodStart("weekly", now), getPeriodStart("monthly", now)])
+  const { transactions, truncated } = await transactionApi.getAllHistory({
+    type_trans: "deposit",
+    start_date: format(start, "yyyy-MM-dd"),
+  })
+  // Partial totals would understate what was deposited: refuse rather than let a deposit through
+  if (truncated) throw new Error("Too many deposits over the limit periods to compute the totals")
+  return getDepositTotals(transactions, now)
+}
+
+/** Smallest amount still allowed by the limits, null when no limit is set */
+export function getRemainingAllowance(settings: ResponsibleGamblingSettings, totals: DepositTotals) {
+  const remaining = LIMIT_PERIODS.flatMap(([period]) => {
+    const limit = settings.limits[period]
+    return limit === null ? [] : [Math.max(0, limit - totals[period])]
+  })
+  return remaining.length ? Math.min(...remaining) : null
+}
+
+/** Reason the deposit isn't allowed, or null when it is */
+export function checkDepositLimits(
+  amount: number,
+  settings: ResponsibleGamblingSettings,
+  totals: DepositTotals,
+  now = new Date(),
+) {
+  const coolOff = getActiveCoolOff(settings, now)
+  if (coolOff) {
+    return `Vous avez choisi de faire une pause : aucun dépôt n'est possible avant le ${format(coolOff, "dd/MM/yyyy à HH:mm")}`
+  }
+
+  for (const [period, label] of LIMIT_PERIODS) {
+    const limit = settings.limits[period]
+    if (limit === null || totals[period] + amount <= limit) continue
+
+    const remaining = Math.max(0, limit - totals[period])
+    return remaining === 0
+      ? `Vous avez atteint votre limite ${label} de dépôt (${formatAmount(limit)})`
+      : `Ce dépôt dépasse votre limite ${label} : vous pouvez encore déposer ${formatAmount(remaining)}`
+  }
+
+  return null
+}
@@ -224,15 +224,16 @@ export class FCMService {
 
   /**
    * Setup foreground message listener
+   * Returns a function removing the listener
    */
   public setupForegroundListener(
     onMessageReceived: (payload: MessagePayload) => void
-  ): void {
+  ): () => void {
     if (typeof window === 'undefined' || !messaging) {
-      return;
+      return () => {};
     }
 
-    onMessage(messaging, (payload) => {
+    return onMessage(messaging, (payload) => {
       console.log('Message received in foreground:', payload);
       onMessageReceived(payload);
     });
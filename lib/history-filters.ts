@@ -0,0 +1,109 @@
+import { endOfDay, format, isValid, parseISO, startOfDay, subDays } from "date-fns"
+import type { TransactionHistoryParams } from "./api-client"
+
+// History filters live in the URL query string so a filtered view can be bookmarked and
+// survives a reload. The page reads them from there and writes every change back.
+
+export type HistoryFilters = Omit<TransactionHistoryParams, "page" | "page_size">
+
+export type DatePreset = "all" | "today" | "7d" | "30d" | "custom"
+export type TypeFilter = "all" | NonNullable<HistoryFilters["type_trans"]>
+export type StatusFilter = "all" | NonNullable<HistoryFilters["status"]>
+
+export interface HistoryFilterState {
+  search: string
+  type: TypeFilter
+  status: StatusFilter
+  network: number | null
+  source: string | null
+  preset: DatePreset
+  /** yyyy-MM-dd, only used with the "custom" preset */
+  from: string | null
+  to: string | null
+}
+
+export const DATE_PRESETS: [DatePreset, string][] = [
+  ["all", "Toutes les dates"],
+  ["today", "Aujourd'hui"],
+  ["7d", "7 derniers jours"],
+  ["30d", "30 derniers jours"],
+  ["custom", "Personnalisé"],
+]
+
+const TYPES: TypeFilter[] = ["all", "deposit", "withdrawal"]
+const STATUSES: StatusFilter[] = ["all", "pending", "accept", "reject", "timeout"]
+const PRESETS = DATE_PRESETS.map(([preset]) => preset)
+const DATE_FORMAT = "yyyy-MM-dd"
+
+const parseDay = (value: string | null) => {
+  if (!value) return null
+  const date = parseISO(value)
+  return isValid(date) ? format(date, DATE_FORMAT) : null
+}
+
+// Unknown or malformed values fall back to the defaults instead of breaking the page
+export function parseHistoryFilters(params: URLSearchParams): HistoryFilterState {
+  const type = params.get("type") as TypeFilter
+  const status = params.get("status") as StatusFilter
+  const preset = params.get("period") as DatePreset
+  const network = Number(params.get("network"))
+
+  return {
+    search: params.get("q") ?? "",
+    type: TYPES.includes(type) ? type : "all",
+    status: STATUSES.includes(status) ? status : "all",
+    network: Number.isInteger(network) && network > 0 ? network : null,
+    source: params.get("source") || null,
+    preset: PRESETS.includes(preset) ? preset : "all",
+    from: parseDay(params.get("from")),
+    to: parseDay(params.get("to")),
+  }
+}
+
+/** Query string for the filters, without the values that are already the defaults */
+export function serializeHistoryFilters(filters: HistoryFilterState) {
+  const params = new URLSearchParams()
+  if (filters.search) params.set("q", filters.search)
+  if (filters.type !== "all") params.set("type", filters.type)
+  if (filters.status !== "all") params.set("status", filters.status)
+  if (filters.network) params.set("network", String(filters.network))
+  if (filters.source) params.set("source", filters.source)
+  if (filters.preset !== "all") params.set("period", filters.preset)
+  if (filters.preset === "custom") {
+    if (filters.from) params.set("from", filters.from)
+    if (filters.to) params.set("to", filters.to)
+  }
+  return params.toString()
+}
+
+export function getDateRange(filters: HistoryFilterState, now = new Date()): { from: Date; to: Date } | null {
+  switch (filters.preset) {
+    case "today":
+      return { from: startOfDay(now), to: endOfDay(now) }
+    case "7d":
+      return { from: startOfDay(subDays(now, 6)), to: endOfDay(now) }
+    case "30d":
+      return { from: startOfDay(subDays(now, 29)), to: endOfDay(now) }
+    case "custom":
+      if (!filters.from) return null
+      return { from: startOfDay(parseISO(filters.from)), to: endOfDay(parseISO(filters.to ?? filters.from)) }
+    default:
+      return null
+  }
+}
+
+export function toHistoryParams(filters: HistoryFilterState): HistoryFilters {
+  const params: HistoryFilters = {}
+  if (filters.search) params.search = filters.search
+  if (filters.type !== "all") params.type_trans = filters.type
+  if (filters.status !== "all") params.status = filters.status
+  if (filters.network) params.network = filters.network
+  if (filters.source) params.source = filters.source
+
+  const range = getDateRange(filters)
+  if (range) {
+    params.start_date = format(range.from, DATE_FORMAT)
+    params.end_date = format(range.to, DATE_FORMAT)
+  }
+  return params
+}
@@ -0,0 +1,77 @@
+// Small in-memory query cache for reference data (settings, networks, platforms, ads).
+// Fresh entries are served directly, stale ones are served and revalidated in the
+// background, and concurrent calls for the same key share one request.
+
+interface CacheEntry<T> {
+  data?: T
+  fetchedAt: number
+  promise?: Promise<T>
+}
+
+type QueryListener<T> = (data: T) => void
+
+const cache = new Map<string, CacheEntry<unknown>>()
+const listeners = new Map<string, Set<QueryListener<unknown>>>()
+
+export const STALE_TIMES = {
+  settings: 5 * 60 * 1000,
+  networks: 5 * 60 * 1000,
+  platforms: 5 * 60 * 1000,
+  advertisements: 10 * 60 * 1000,
+}
+
+function runFetch<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  const entry = (cache.get(key) as CacheEntry<T> | undefined) ?? { fetchedAt: 0 }
+  if (entry.promise) return entry.promise
+
+  const promise = fetcher()
+    .then((data) => {
+      cache.set(key, { data, fetchedAt: Date.now() })
+      listeners.get(key)?.forEach((listener) => listener(data))
+      return data
+    })
+    .catch((error) => {
+      // Keep serving the previous data if we had some
+      const current = cache.get(key)
+      if (current) cache.set(key, { ...current, promise: undefined })
+      throw error
+    })
+
+  cache.set(key, { ...entry, promise })
+  return promise
+}
+
+/**
+ * Returns cached data for `key`, fetching it when missing and revalidating it in the
+ * background once it is older than `staleTime`.
+ */
+export function cachedQuery<T>(key: string, fetcher: () => Promise<T>, staleTime: number): Promise<T> {
+  const entry = cache.get(key) as CacheEntry<T> | undefined
+
+  if (entry && entry.data !== undefined) {
+    if (Date.now() - entry.fetchedAt > staleTime) {
+      // Stale-while-revalidate: background errors are already handled by the api interceptor
+      runFetch(key, fetcher).catch(() => {})
+    }
+    return Promise.resolve(entry.data)
+  }
+
+  return runFetch(key, fetcher)
+}
+
+/** Subscribes to updates of `key`, e.g. after a background revalidation */
+export function subscribeQuery<T>(key: string, listener: QueryListener<T>) {
+  if (!listeners.has(key)) listeners.set(key, new Set())
+  const keyListeners = listeners.get(key)!
+  keyListeners.add(listener as QueryListener<unknown>)
+  return () => {
+    keyListeners.delete(listener as QueryListener<unknown>)
+  }
+}
+
+/** Drops every entry whose key starts with `prefix`, or the whole cache without one */
+export function invalidateQueries(prefix?: string) {
+  Array.from(cache.keys()).forEach((key) => {
+    if (!prefix || key.startsWith(prefix)) cache.delete(key)
+  })
+}
@@ -0,0 +1,85 @@
+import { networkApi, phoneApi, platformApi, userAppIdApi } from "./api-client"
+import type { Network, Platform, Transaction, UserAppId, UserPhone } from "./types"
+
+// "Recommencer": the deposit and withdrawal wizards can be pre-filled from a past
+// transaction. Each saved choice is checked again since platforms, networks, bet IDs
+// and phones may have been disabled or removed in the meantime.
+
+export type RepeatableType = "deposit" | "withdrawal"
+
+/** Wizard choices restored from a past transaction or a saved template */
+export interface WizardPrefill {
+  platform: Platform | null
+  betId: UserAppId | null
+  network: Network | null
+  phone: UserPhone | null
+  amount: number
+  /** First wizard step (1-5) left to fill in, null when every saved value can be reused */
+  invalidStep: number | null
+  /** Why that step's saved value can't be reused, null when there was none */
+  issue: string | null
+}
+
+export const REPEAT_PARAM = "repeat"
+
+export const isRepeatable = (transaction: Transaction): transaction is Transaction & { type_trans: RepeatableType } =>
+  transaction.type_trans === "deposit" || transaction.type_trans === "withdrawal"
+
+export function getRepeatHref(transaction: Transaction & { type_trans: RepeatableType }) {
+  return `/dashboard/${transaction.type_trans}?${REPEAT_PARAM}=${encodeURIComponent(transaction.reference)}`
+}
+
+// Phones come back with or without the country prefix depending on where they were saved
+function isSamePhone(a: string, b: string) {
+  const digitsA = a.replace(/\D/g, "")
+  const digitsB = b.replace(/\D/g, "")
+  if (!digitsA || !digitsB) return false
+  return digitsA === digitsB || digitsA.endsWith(digitsB) || digitsB.endsWith(digitsA)
+}
+
+/** Looks up the choices of `transaction` in the current reference data, stopping at the first one that is gone */
+export async function resolveRepeatSelection(transaction: Transaction, type: RepeatableType): Promise<WizardPrefill> {
+  const selection: WizardPrefill = {
+    platform: null,
+    betId: null,
+    network: null,
+    phone: null,
+    amount: transaction.amount,
+    invalidStep: null,
+    issue: null,
+  }
+  const fail = (step: number, issue: string): WizardPrefill => ({ ...selection, invalidStep: step, issue })
+
+  const [platforms, networks] = await Promise.all([
+    platformApi.getAll(type, { silent: true }),
+    networkApi.getAll(type, { silent: true }),
+  ])
+
+  // Same availability rules as the wizard steps
+  selection.platform = platforms.find((platform) => platform.id === transaction.app && platform.enable) ?? null
+  if (!selection.platform) return fail(1, "Cette plateforme n'est plus disponible")
+
+  const betIds = await userAppIdApi.getByPlatform(selection.platform.id, { silent: true })
+  selection.betId = betIds.find((betId) => betId.user_app_id === transaction.user_app_id) ?? null
+  if (!selection.betId) return fail(2, "Cet ID de pari n'est plus enregistré")
+
+  selection.network =
+    networks.find(
+      (network) =>
+        network.id === transaction.network &&
+        (type === "deposit" ? network.active_for_deposit : network.active_for_with),
+    ) ?? null
+  if (!selection.network) return fail(3, "Ce réseau n'est plus disponible")
+
+  const phones = await phoneApi.getAll(selection.network.id, { silent: true })
+  selection.phone = phones.find((phone) => isSamePhone(phone.phone, transaction.phone_number)) ?? null
+  if (!selection.phone) return fail(4, "Ce numéro de téléphone n'est plus enregistré")
+
+  const minAmount = type === "deposit" ? selection.platform.minimun_deposit : selection.platform.minimun_with
+  const maxAmount = type === "deposit" ? selection.platform.max_deposit : selection.platform.max_win
+  if (selection.amount < minAmount || selection.amount > maxAmount) {
+    return fail(5, `Le montant doit être compris entre ${minAmount.toLocaleString()} et ${maxAmount.toLocaleString()} FCFA`)
+  }
+
+  return selection
+}
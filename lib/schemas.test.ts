@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { bonusSchema, paginatedSchema, parseResponse } from "./schemas"
+
+const bonus = {
+  id: 1,
+  created_at: "2026-01-01T00:00:00Z",
+  amount: "500.00",
+  reason_bonus: "Parrainage",
+  transaction: null,
+  user: "u1",
+}
+
+describe("parseResponse", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it("coerces numeric strings", () => {
+    expect(parseResponse(bonusSchema, bonus, "/bonus").amount).toBe(500)
+  })
+
+  it("throws on a mismatch outside production", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    expect(() => parseResponse(bonusSchema, { ...bonus, user: 42 }, "/bonus")).toThrow()
+  })
+
+  it("keeps coercing the other fields of a mismatching response in production", () => {
+    vi.stubEnv("NODE_ENV", "production")
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    const page = parseResponse(
+      paginatedSchema(bonusSchema),
+      { count: 2, next: null, previous: null, results: [{ ...bonus, user: 42 }, bonus] },
+      "/bonus",
+    )
+    expect(page.results.map((result) => result.amount)).toEqual([500, 500])
+    expect(page.results[0].user).toBe(42)
+  })
+})
@@ -0,0 +1,258 @@
+import { z } from "zod"
+import type { TransactionType, TransactionStatus, SourceType } from "./constants"
+import { ApiError } from "./api"
+
+// Runtime schemas for backend responses. lib/types.ts infers its types from these.
+// Numeric fields are coerced because the backend sends some of them as strings
+// (e.g. Bonus.amount is "500.00" while Transaction.amount is 500).
+
+const nullableString = z.string().nullable()
+const number = z.coerce.number()
+
+// The backend sends more values than the ones listed in constants.ts
+// (e.g. "reject", "timeout", "annuler"), so these only check for a string.
+const transactionType = z.custom<TransactionType>((value) => typeof value === "string")
+const transactionStatus = z.custom<TransactionStatus>((value) => typeof value === "string")
+const source = z.custom<SourceType>((value) => typeof value === "string")
+
+export const userSchema = z.object({
+  id: z.string(),
+  bonus_available: number,
+  balance: number,
+  is_superuser: z.boolean(),
+  username: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  email: z.string(),
+  is_delete: z.boolean(),
+  phone: z.string(),
+  otp: nullableString,
+  otp_created_at: nullableString,
+  is_block: z.boolean(),
+  referrer_code: nullableString,
+  referral_code: z.string(),
+  is_active: z.boolean(),
+  is_staff: z.boolean(),
+  is_supperuser: z.boolean(),
+  date_joined: z.string(),
+  last_login: z.string(),
+  groups: z.array(z.string()),
+  user_permissions: z.array(z.string()),
+})
+
+export const authResponseSchema = z.object({
+  refresh: z.string(),
+  access: z.string(),
+  exp: z.string(),
+  data: userSchema,
+})
+
+export const networkSchema = z.object({
+  id: z.number(),
+  created_at: z.string(),
+  name: z.string(),
+  placeholder: z.string(),
+  public_name: z.string(),
+  country_code: z.string(),
+  indication: z.string(),
+  image: z.string(),
+  withdrawal_message: nullableString,
+  deposit_api: z.string(),
+  withdrawal_api: z.string(),
+  payment_by_link: z.boolean(),
+  otp_required: z.boolean(),
+  enable: z.boolean(),
+  deposit_message: z.string(),
+  active_for_deposit: z.boolean(),
+  active_for_with: z.boolean(),
+})
+
+export const userPhoneSchema = z.object({
+  id: z.number(),
+  created_at: z.string(),
+  phone: z.string(),
+  user: nullableString,
+  telegram_user: z.number(),
+  network: z.number(),
+})
+
+export const platformSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  image: z.string(),
+  enable: z.boolean(),
+  deposit_tuto_link: nullableString,
+  withdrawal_tuto_link: nullableString,
+  why_withdrawal_fail: nullableString,
+  order: z.number().nullable(),
+  city: nullableString,
+  street: nullableString,
+  minimun_deposit: number,
+  max_deposit: number,
+  minimun_with: number,
+  max_win: number,
+})
+
+// Platform as embedded in UserAppId and Transaction responses
+const appDetailsSchema = platformSchema.extend({
+  active_for_deposit: z.boolean(),
+  active_for_with: z.boolean(),
+})
+
+export const userAppIdSchema = z.object({
+  id: z.number(),
+  created_at: z.string(),
+  user_app_id: z.string(),
+  user: nullableString,
+  telegram_user: z.number(),
+  app: z.string(),
+  app_name: z.string().optional(),
+  app_details: appDetailsSchema.optional(),
+})
+
+export const transactionSchema = z.object({
+  id: z.number(),
+  user: z.object({
+    id: z.string(),
+    first_name: z.string(),
+    last_name: z.string(),
+    email: z.string(),
+  }),
+  amount: number,
+  deposit_reward_amount: number.nullable(),
+  reference: z.string(),
+  type_trans: transactionType,
+  status: transactionStatus,
+  created_at: z.string(),
+  validated_at: nullableString,
+  webhook_data: z.any(),
+  wehook_receive_at: nullableString,
+  phone_number: z.string(),
+  user_app_id: z.string(),
+  withdriwal_code: nullableString,
+  error_message: nullableString,
+  transaction_link: nullableString,
+  payment_by_link: z.boolean().optional(),
+  net_payable_amout: number.nullable(),
+  otp_code: nullableString,
+  public_id: nullableString,
+  already_process: z.boolean(),
+  source: source,
+  old_status: z.string(),
+  old_public_id: z.string(),
+  success_webhook_send: z.boolean(),
+  fail_webhook_send: z.boolean(),
+  pending_webhook_send: z.boolean(),
+  timeout_webhook_send: z.boolean(),
+  telegram_user: z.number().nullable(),
+  app: z.string(),
+  network: z.number(),
+  message: z.string().optional(),
+  ussd_code: z.string().optional(),
+  app_details: appDetailsSchema.optional(),
+})
+
+export function paginatedSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    count: z.number(),
+    next: nullableString,
+    previous: nullableString,
+    results: z.array(item),
+  })
+}
+
+export const notificationSchema = z.object({
+  id: z.number(),
+  reference: nullableString,
+  created_at: z.string(),
+  content: z.string(),
+  is_read: z.boolean(),
+  title: z.string(),
+  user: z.string(),
+})
+
+export const bonusSchema = z.object({
+  id: z.number(),
+  created_at: z.string(),
+  amount: number,
+  reason_bonus: z.string(),
+  transaction: z.number().nullable(),
+  user: z.string(),
+})
+
+export const searchUserResponseSchema = z.object({
+  UserId: z.number(),
+  Name: z.string(),
+  CurrencyId: z.number(),
+})
+
+export const advertisementSchema = z
+  .object({
+    id: z.union([z.string(), z.number()]).optional(),
+    image: z.string().optional(),
+    image_url: z.string().optional(),
+    url: z.string().optional(),
+    link: z.string().optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    enable: z.boolean().optional(),
+    created_at: z.string().optional(),
+  })
+  .catchall(z.any()) // Allow for flexible response structure
+
+// Every key is optional: a missing value turns the matching feature off instead of failing
+export const settingsSchema = z.object({
+  // Support contacts
+  whatsapp_phone: nullableString.optional(),
+  telegram: nullableString.optional(),
+  // Merchant phones used to build USSD payment codes, per network and country (see lib/ussd.ts)
+  moov_marchand_phone: nullableString.optional(),
+  orange_marchand_phone: nullableString.optional(),
+  bf_moov_marchand_phone: nullableString.optional(),
+  bf_orange_marchand_phone: nullableString.optional(),
+  // Feature flags
+  referral_bonus: z.boolean().optional(),
+})
+
+export const couponSchema = z.object({
+  id: z.number(),
+  created_at: z.string(),
+  code: z.string(),
+  bet_app: z.string(),
+})
+
+// Same schema where a value that doesn't match is kept as received instead of failing the whole
+// response, so the fields that do match are still coerced
+function lenient(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let inner: z.ZodTypeAny = schema
+  if (schema instanceof z.ZodObject) {
+    const shape = Object.fromEntries(
+      Object.entries(schema.shape as z.ZodRawShape).map(([key, field]) => [key, lenient(field)]),
+    )
+    inner = new z.ZodObject({ ...schema._def, shape: () => shape })
+  } else if (schema instanceof z.ZodArray) {
+    inner = z.array(lenient(schema.element))
+  } else if (schema instanceof z.ZodNullable) {
+    inner = lenient(schema.unwrap()).nullable()
+  } else if (schema instanceof z.ZodOptional) {
+    inner = lenient(schema.unwrap()).optional()
+  }
+  return inner.catch((ctx: { input: unknown }) => ctx.input)
+}
+
+/**
+ * Validates and coerces a response against its schema.
+ * Schema drift throws in development so it gets noticed, and only logs in production
+ * where the fields that don't match are returned as received and every other one is coerced.
+ */
+export function parseResponse<T extends z.ZodTypeAny>(schema: T, data: unknown, endpoint: string): z.infer<T> {
+  const result = schema.safeParse(data)
+  if (result.success) return result.data
+
+  if (process.env.NODE_ENV !== "production") {
+    console.error(`[schema] Unexpected response from ${endpoint}:`, result.error.issues)
+    throw new ApiError("server", `Réponse inattendue du serveur (${endpoint})`, { data })
+  }
+  console.warn(`[schema] Unexpected response from ${endpoint}`, result.error.issues)
+  return lenient(schema).parse(data)
+}
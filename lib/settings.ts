@@ -0,0 +1,38 @@
+import type { Settings } from "./types"
+import { USSD_RULES } from "./ussd"
+
+// Grouped, typed accessors over the /mobcash/setting payload.
+// Pages go through these instead of reading raw keys so a typo can't silently turn a feature off.
+
+export interface SupportContacts {
+  whatsappPhone: string | null
+  telegram: string | null
+}
+
+export interface FeatureFlags {
+  /** At least one merchant phone is configured, so USSD payment codes can be generated */
+  ussdPayments: boolean
+}
+
+export interface ReferralSettings {
+  enabled: boolean
+}
+
+export function getSupportContacts(settings: Settings | null): SupportContacts {
+  return {
+    whatsappPhone: settings?.whatsapp_phone || null,
+    telegram: settings?.telegram || null,
+  }
+}
+
+export function getFeatureFlags(settings: Settings | null): FeatureFlags {
+  return {
+    ussdPayments: USSD_RULES.some((rule) => Boolean(settings?.[rule.merchantPhoneKey])),
+  }
+}
+
+export function getReferralSettings(settings: Settings | null): ReferralSettings {
+  return {
+    enabled: settings?.referral_bonus === true,
+  }
+}
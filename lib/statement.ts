@@ -0,0 +1,192 @@
+import { format } from "date-fns"
+import { fr } from "date-fns/locale"
+import { getSourceLabel, getTransactionStatusLabel, getTransactionTypeLabel } from "./constants"
+import type { Transaction, User } from "./types"
+
+// Client-side statements of the transaction history: CSV download and a printable page
+// the browser can save as PDF.
+
+export interface StatementTotals {
+  type: Transaction["type_trans"]
+  count: number
+  amount: number
+  acceptedAmount: number
+}
+
+export interface StatementSummary {
+  from: Date | null
+  to: Date | null
+  totals: StatementTotals[]
+}
+
+export function summarizeTransactions(transactions: Transaction[]): StatementSummary {
+  const totals = new Map<Transaction["type_trans"], StatementTotals>()
+  let from: Date | null = null
+  let to: Date | null = null
+
+  transactions.forEach((transaction) => {
+    const createdAt = new Date(transaction.created_at)
+    if (!from || createdAt < from) from = createdAt
+    if (!to || createdAt > to) to = createdAt
+
+    const total = totals.get(transaction.type_trans) ?? {
+      type: transaction.type_trans,
+      count: 0,
+      amount: 0,
+      acceptedAmount: 0,
+    }
+    total.count += 1
+    total.amount += transaction.amount
+    if (transaction.status === "accept") total.acceptedAmount += transaction.amount
+    totals.set(transaction.type_trans, total)
+  })
+
+  return { from, to, totals: Array.from(totals.values()) }
+}
+
+const formatDateTime = (date: string) => format(new Date(date), "dd/MM/yyyy HH:mm", { locale: fr })
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("fr-FR", { style: "currency", currency: "XOF", minimumFractionDigits: 0 })
+
+const formatRange = ({ from, to }: StatementSummary) =>
+  from && to
+    ? `du ${format(from, "dd MMMM yyyy", { locale: fr })} au ${format(to, "dd MMMM yyyy", { locale: fr })}`
+    : "Aucune transaction"
+
+const STATEMENT_COLUMNS: [string, (transaction: Transaction) => string][] = [
+  ["Date", (t) => formatDateTime(t.created_at)],
+  ["Référence", (t) => t.reference],
+  ["Type", (t) => getTransactionTypeLabel(t.type_trans)],
+  ["Statut", (t) => getTransactionStatusLabel(t.status)],
+  ["Montant (XOF)", (t) => String(t.amount)],
+  ["Plateforme", (t) => t.app_details?.name || t.app],
+  ["ID de pari", (t) => t.user_app_id],
+  ["Téléphone", (t) => t.phone_number],
+  ["Source", (t) => getSourceLabel(t.source)],
+  ["Validée le", (t) => (t.validated_at ? formatDateTime(t.validated_at) : "")],
+  ["Erreur", (t) => t.error_message ?? ""],
+]
+
+// The printed statement keeps the columns that fit on a portrait page
+const PRINTED_COLUMNS = STATEMENT_COLUMNS.slice(0, 6)
+const AMOUNT_COLUMN = "Montant (XOF)"
+
+const escapeCsv = (value: string) => (/[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+// Semicolon separated with a BOM so spreadsheet apps set to French open it with the right columns and accents
+export function transactionsToCsv(transactions: Transaction[]) {
+  const header = STATEMENT_COLUMNS.map(([label]) => escapeCsv(label)).join(";")
+  const rows = transactions.map((transaction) =>
+    STATEMENT_COLUMNS.map(([, getValue]) => escapeCsv(getValue(transaction))).join(";"),
+  )
+  return "\uFEFF" + [header, ...rows].join("\r\n")
+}
+
+export function downloadCsv(filename: string, content: string) {
+  const blob = new Blob([content], { type: "text/csv;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+/** `range` is the period that was filtered on; without one the statement covers its first to last transaction */
+export function buildStatementHtml(
+  user: Pick<User, "first_name" | "last_name" | "email">,
+  transactions: Transaction[],
+  range?: { from: Date; to: Date } | null,
+) {
+  const summary = summarizeTransactions(transactions)
+  if (range) {
+    summary.from = range.from
+    summary.to = range.to
+  }
+  const fullName = `${user.first_name} ${user.last_name}`.trim()
+
+  const totalsRows = summary.totals
+    .map(
+      (total) => `<tr>
+        <td>${escapeHtml(getTransactionTypeLabel(total.type))}</td>
+        <td class="num">${total.count}</td>
+        <td class="num">${escapeHtml(formatAmount(total.amount))}</td>
+        <td class="num">${escapeHtml(formatAmount(total.acceptedAmount))}</td>
+      </tr>`,
+    )
+    .join("")
+
+  const transactionRows = transactions
+    .map(
+      (transaction) => `<tr>${PRINTED_COLUMNS
+        .map(([label, getValue]) => `<td${label === AMOUNT_COLUMN ? ' class="num"' : ""}>${escapeHtml(getValue(transaction))}</td>`)
+        .join("")}</tr>`,
+    )
+    .join("")
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8" />
+  <title>Relevé de transactions - ${escapeHtml(fullName)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #111; margin: 32px; font-size: 12px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    h2 { font-size: 14px; margin: 24px 0 8px; }
+    p { margin: 2px 0; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+    th { background: #f3f4f6; }
+    .num { text-align: right; white-space: nowrap; }
+    .muted { color: #6b7280; }
+    @media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+  </style>
+</head>
+<body>
+  <h1>Relevé de transactions</h1>
+  <p><strong>${escapeHtml(fullName)}</strong> — ${escapeHtml(user.email)}</p>
+  <p>Période : ${escapeHtml(formatRange(summary))}</p>
+  <p class="muted">Édité le ${escapeHtml(format(new Date(), "dd/MM/yyyy à HH:mm", { locale: fr }))}</p>
+
+  <h2>Totaux par type</h2>
+  <table>
+    <thead><tr><th>Type</th><th class="num">Nombre</th><th class="num">Montant total</th><th class="num">Montant accepté</th></tr></thead>
+    <tbody>${totalsRows}</tbody>
+  </table>
+
+  <h2>Transactions (${transactions.length})</h2>
+  <table>
+    <thead><tr>${PRINTED_COLUMNS
+      .map(([label]) => `<th${label === AMOUNT_COLUMN ? ' class="num"' : ""}>${escapeHtml(label)}</th>`)
+      .join("")}</tr></thead>
+    <tbody>${transactionRows}</tbody>
+  </table>
+</body>
+</html>`
+}
+
+/**
+ * Opens the window the statement will be printed from. Call it straight from the click
+ * handler: browsers block windows opened after an await.
+ */
+export function openStatementWindow() {
+  const printWindow = window.open("", "_blank")
+  printWindow?.document.write('<p style="font-family: Arial, sans-serif">Préparation du relevé...</p>')
+  return printWindow
+}
+
+/** Writes the statement into the window and opens the print dialog, where the user can pick "Save as PDF" */
+export function printStatement(printWindow: Window, html: string) {
+  printWindow.document.open()
+  printWindow.document.write(html)
+  printWindow.document.close()
+  printWindow.focus()
+  // Let the new document lay out before printing
+  setTimeout(() => printWindow.print(), 250)
+}
@@ -0,0 +1,137 @@
+import { networkApi, phoneApi, platformApi, userAppIdApi } from "./api-client"
+import type { RepeatableType, WizardPrefill } from "./repeat-transaction"
+import type { Network, Platform, UserAppId, UserPhone } from "./types"
+
+// Saved transaction templates ("favoris"): a named platform, bet ID, network and phone,
+// with an optional amount, that fill the deposit or withdrawal wizard in one tap.
+// The API has no endpoint for them, so they are kept per user in localStorage, which
+// logout leaves in place (`clearAuthStorage` only drops the session keys).
+
+export interface TransactionTemplate {
+  id: number
+  name: string
+  platformId: string
+  /** `UserAppId.id` */
+  betId: number
+  networkId: number
+  /** `UserPhone.id` */
+  phoneId: number
+  amount: number | null
+}
+
+/** The wizard choices a template stores, any of which may still be missing in an unfinished flow */
+export interface TemplateChoices {
+  platformId: string | null
+  betId: number | null
+  networkId: number | null
+  phoneId: number | null
+  amount: number | null
+}
+
+export interface TemplateReferenceData {
+  platforms: Platform[]
+  networks: Network[]
+  betIds: UserAppId[]
+  phones: UserPhone[]
+}
+
+const STORAGE_PREFIX = "transaction_templates_"
+
+export function loadTemplates(userId: string): TransactionTemplate[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + userId)
+    return raw ? JSON.parse(raw) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveTemplates(userId: string, templates: TransactionTemplate[]) {
+  localStorage.setItem(STORAGE_PREFIX + userId, JSON.stringify(templates))
+}
+
+/** Adds the template, or replaces the one with the same id */
+export function upsertTemplate(userId: string, template: Omit<TransactionTemplate, "id"> & { id?: number }) {
+  const templates = loadTemplates(userId)
+  const saved = { ...template, id: template.id ?? Date.now() }
+  const index = templates.findIndex((existing) => existing.id === saved.id)
+  if (index === -1) {
+    templates.push(saved)
+  } else {
+    templates[index] = saved
+  }
+  saveTemplates(userId, templates)
+  return templates
+}
+
+export function deleteTemplate(userId: string, id: number) {
+  const templates = loadTemplates(userId).filter((template) => template.id !== id)
+  saveTemplates(userId, templates)
+  return templates
+}
+
+/** Current platforms and networks offered for `type`, with the user's bet IDs and phones */
+export async function fetchTemplateReferenceData(type: RepeatableType): Promise<TemplateReferenceData> {
+  const [platforms, networks, betIds, phones] = await Promise.all([
+    platformApi.getAll(type, { silent: true }),
+    networkApi.getAll(type, { silent: true }),
+    userAppIdApi.getAll({ silent: true }),
+    phoneApi.getAll(undefined, { silent: true }),
+  ])
+  return { platforms, networks, betIds, phones }
+}
+
+/**
+ * Checks a template against the platforms and networks currently offered for `type`
+ * (`platformApi.getAll(type)`, `networkApi.getAll(type)`) and the user's bet IDs and
+ * phones. `invalidStep` points at the first choice that is missing or can no longer be used.
+ */
+export function resolveTemplate(
+  template: TemplateChoices,
+  type: RepeatableType,
+  data: TemplateReferenceData,
+): WizardPrefill {
+  const prefill: WizardPrefill = {
+    platform: null,
+    betId: null,
+    network: null,
+    phone: null,
+    amount: template.amount ?? 0,
+    invalidStep: null,
+    issue: null,
+  }
+  const fail = (step: number, issue: string | null): WizardPrefill => ({ ...prefill, invalidStep: step, issue })
+
+  if (template.platformId === null) return fail(1, null)
+  prefill.platform = data.platforms.find((platform) => platform.id === template.platformId && platform.enable) ?? null
+  if (!prefill.platform) return fail(1, "Plateforme indisponible")
+
+  if (template.betId === null) return fail(2, null)
+  prefill.betId =
+    data.betIds.find((betId) => betId.id === template.betId && betId.app === template.platformId) ?? null
+  if (!prefill.betId) return fail(2, "ID de pari supprimé")
+
+  if (template.networkId === null) return fail(3, null)
+  prefill.network =
+    data.networks.find(
+      (network) =>
+        network.id === template.networkId &&
+        (type === "deposit" ? network.active_for_deposit : network.active_for_with),
+    ) ?? null
+  if (!prefill.network) return fail(3, "Réseau indisponible")
+
+  if (template.phoneId === null) return fail(4, null)
+  prefill.phone =
+    data.phones.find((phone) => phone.id === template.phoneId && phone.network === template.networkId) ?? null
+  if (!prefill.phone) return fail(4, "Numéro supprimé")
+
+  if (template.amount !== null) {
+    const minAmount = type === "deposit" ? prefill.platform.minimun_deposit : prefill.platform.minimun_with
+    const maxAmount = type === "deposit" ? prefill.platform.max_deposit : prefill.platform.max_win
+    if (template.amount < minAmount || template.amount > maxAmount) {
+      return fail(5, `Montant hors limites (${minAmount.toLocaleString()} - ${maxAmount.toLocaleString()} FCFA)`)
+    }
+  }
+
+  return prefill
+}
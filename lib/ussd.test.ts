@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+import { buildUssdPayment, findUssdRule, formatUssdCode, getUssdAmount, USSD_RULES } from "./ussd"
+import type { Settings } from "./types"
+
+const settings = {
+  moov_marchand_phone: "01010101",
+  orange_marchand_phone: "02020202",
+  bf_moov_marchand_phone: "70707070",
+  bf_orange_marchand_phone: "75757575",
+} as Settings
+
+const moov = { name: "Moov", country_code: "CI", deposit_api: "connect" }
+const orange = { name: "Orange", country_code: "CI", deposit_api: "connect" }
+
+describe("findUssdRule", () => {
+  it("uses the Burkina Faso rule for BF networks", () => {
+    const rule = findUssdRule({ ...moov, country_code: "BF" })
+    expect(rule?.merchantPhoneKey).toBe("bf_moov_marchand_phone")
+  })
+
+  it("falls back to the default rule for other countries", () => {
+    expect(findUssdRule(moov)?.merchantPhoneKey).toBe("moov_marchand_phone")
+    expect(findUssdRule(orange)?.merchantPhoneKey).toBe("orange_marchand_phone")
+  })
+
+  it("only applies to networks whose deposit API is connect", () => {
+    expect(findUssdRule({ ...moov, deposit_api: "wave" })).toBeNull()
+    expect(findUssdRule({ ...moov, deposit_api: "CONNECT" })).not.toBeNull()
+  })
+
+  it("skips Orange when the network pays by link", () => {
+    expect(findUssdRule(orange, true)).toBeNull()
+    expect(findUssdRule(orange, false)).not.toBeNull()
+    expect(findUssdRule(moov, true)).not.toBeNull()
+  })
+
+  it("returns null for networks without a rule", () => {
+    expect(findUssdRule({ name: "Wave", country_code: "CI", deposit_api: "connect" })).toBeNull()
+  })
+})
+
+describe("getUssdAmount", () => {
+  const rule = USSD_RULES[0]
+
+  it("removes the 1% fee and rounds down", () => {
+    expect(getUssdAmount(rule, 1000)).toBe(990)
+    expect(getUssdAmount(rule, 1555)).toBe(1539)
+  })
+
+  it("never goes below 1", () => {
+    expect(getUssdAmount(rule, 1)).toBe(1)
+    expect(getUssdAmount(rule, 0)).toBe(1)
+  })
+})
+
+describe("formatUssdCode", () => {
+  it("substitutes the merchant phone and the amount", () => {
+    expect(formatUssdCode("*155*2*1*{merchant}*{amount}#", "01010101", 990)).toBe("*155*2*1*01010101*990#")
+  })
+})
+
+describe("buildUssdPayment", () => {
+  it("builds the code with the merchant phone of the country", () => {
+    expect(buildUssdPayment({ ...orange, country_code: "BF" }, 2000, settings)).toEqual({
+      code: "*144*2*1*75757575*1980#",
+      merchantPhone: "75757575",
+      amount: 1980,
+      label: "Orange",
+    })
+  })
+
+  it("returns null when the merchant phone is missing", () => {
+    expect(buildUssdPayment(moov, 1000, { ...settings, moov_marchand_phone: null })).toBeNull()
+    expect(buildUssdPayment(moov, 1000, null)).toBeNull()
+  })
+
+  it("returns null for Orange paying by link", () => {
+    expect(buildUssdPayment(orange, 1000, settings, true)).toBeNull()
+  })
+})
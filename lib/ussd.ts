@@ -0,0 +1,124 @@
+import type { Network, Settings } from "./types"
+
+// Declarative USSD payment codes for deposits on networks without a payment API of their own.
+// Adding a network/country means adding a rule here (and its merchant phone to the Settings schema).
+
+export interface UssdRule {
+  /** Network.name, lowercased */
+  network: string
+  /** Network.country_code values this rule is limited to; omit for the default rule */
+  countries?: string[]
+  /** Name shown in the payment modal */
+  label: string
+  /** {merchant} and {amount} are substituted */
+  template: string
+  /** Share of the amount actually dialled, the rest being the operator fee */
+  feeFactor: number
+  /** Settings key holding the merchant phone to pay */
+  merchantPhoneKey: keyof Settings
+  /** USSD is only used when Network.deposit_api has this value */
+  depositApi: string
+  /** Fall back to the payment link instead of USSD when the network pays by link */
+  skipWhenPaymentByLink: boolean
+}
+
+export interface UssdPayment {
+  code: string
+  merchantPhone: string
+  amount: number
+  label: string
+}
+
+// Country-specific rules come before the default rule of the same network
+export const USSD_RULES: UssdRule[] = [
+  {
+    network: "moov",
+    countries: ["bf"],
+    label: "Moov",
+    template: "*155*2*1*{merchant}*{amount}#",
+    feeFactor: 0.99,
+    merchantPhoneKey: "bf_moov_marchand_phone",
+    depositApi: "connect",
+    skipWhenPaymentByLink: false,
+  },
+  {
+    network: "moov",
+    label: "Moov",
+    template: "*155*2*1*{merchant}*{amount}#",
+    feeFactor: 0.99,
+    merchantPhoneKey: "moov_marchand_phone",
+    depositApi: "connect",
+    skipWhenPaymentByLink: false,
+  },
+  {
+    network: "orange",
+    countries: ["bf"],
+    label: "Orange",
+    template: "*144*2*1*{merchant}*{amount}#",
+    feeFactor: 0.99,
+    merchantPhoneKey: "bf_orange_marchand_phone",
+    depositApi: "connect",
+    skipWhenPaymentByLink: true,
+  },
+  {
+    network: "orange",
+    label: "Orange",
+    template: "*144*2*1*{merchant}*{amount}#",
+    feeFactor: 0.99,
+    merchantPhoneKey: "orange_marchand_phone",
+    depositApi: "connect",
+    skipWhenPaymentByLink: true,
+  },
+]
+
+export function findUssdRule(
+  network: Pick<Network, "name" | "country_code" | "deposit_api">,
+  paymentByLink?: boolean,
+  rules: UssdRule[] = USSD_RULES,
+): UssdRule | null {
+  const name = network.name?.toLowerCase()
+  const country = network.country_code?.toLowerCase()
+
+  const rule = rules.find(
+    (candidate) =>
+      candidate.network === name && (!candidate.countries || (!!country && candidate.countries.includes(country))),
+  )
+  if (!rule) return null
+  if (network.deposit_api?.toLowerCase() !== rule.depositApi) return null
+  if (rule.skipWhenPaymentByLink && paymentByLink === true) return null
+  return rule
+}
+
+export function getUssdAmount(rule: UssdRule, amount: number) {
+  return Math.max(1, Math.floor(amount * rule.feeFactor))
+}
+
+export function formatUssdCode(template: string, merchantPhone: string, amount: number) {
+  return template.replace("{merchant}", merchantPhone).replace("{amount}", String(amount))
+}
+
+/**
+ * Builds the USSD code to dial for a deposit, or null when the network has no USSD flow
+ * or its merchant phone is not configured.
+ */
+export function buildUssdPayment(
+  network: Pick<Network, "name" | "country_code" | "deposit_api">,
+  amount: number,
+  settings: Settings | null,
+  paymentByLink?: boolean,
+  rules: UssdRule[] = USSD_RULES,
+): UssdPayment | null {
+  const rule = findUssdRule(network, paymentByLink, rules)
+  if (!rule) return null
+
+  const merchantPhone = settings?.[rule.merchantPhoneKey]
+  if (typeof merchantPhone !== "string" || !merchantPhone) return null
+
+  const ussdAmount = getUssdAmount(rule, amount)
+  return {
+    code: formatUssdCode(rule.template, merchantPhone, ussdAmount),
+    merchantPhone,
+    amount: ussdAmount,
+    label: rule.label,
+  }
+}
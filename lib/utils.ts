@@ -33,7 +33,8 @@ export function formatPhoneNumberForDisplay(phone: string): string {
  * Example: ["0 M:8 S"] -> "Veuillez patienter 0 minute(s) et 8 seconde(s) avant de réessayer"
  */
 export function extractTimeErrorMessage(error: any): string | null {
-  const errorTimeMessage = error?.response?.data?.error_time_message
+  // ApiError exposes the body as `data`; raw axios errors keep it under `response`
+  const errorTimeMessage = (error?.data ?? error?.response?.data)?.error_time_message
   if (!errorTimeMessage || !Array.isArray(errorTimeMessage) || errorTimeMessage.length === 0) {
     return null
   }
@@ -65,3 +66,48 @@ export function extractTimeErrorMessage(error: any): string | null {
   // Fallback: return the original message if parsing fails
   return `Veuillez patienter ${timeString} avant de réessayer.`
 }
+
+/**
+ * Resolves when an access token expires, in epoch milliseconds.
+ * Uses the `exp` returned by the auth endpoints (ISO date or epoch seconds) and
+ * falls back to the `exp` claim of the JWT itself.
+ */
+export function parseTokenExpiry(accessToken?: string | null, exp?: string | number | null): number | null {
+  if (exp !== undefined && exp !== null && exp !== '') {
+    const numeric = Number(exp)
+    if (!Number.isNaN(numeric)) {
+      // Epoch seconds vs. milliseconds
+      return numeric < 1e12 ? numeric * 1000 : numeric
+    }
+    const parsed = Date.parse(String(exp))
+    if (!Number.isNaN(parsed)) return parsed
+  }
+
+  if (!accessToken) return null
+  try {
+    const payload = accessToken.split('.')[1]
+    if (!payload) return null
+    const decoded = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')))
+    return typeof decoded.exp === 'number' ? decoded.exp * 1000 : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Generates a client idempotency key for transaction creation requests
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+}
+
+/**
+ * Tracking page of a transaction. The reference goes in the query string because
+ * the static export (`output: 'export'`) can't serve a dynamic route for it.
+ */
+export function getTransactionHref(reference: string): string {
+  return `/dashboard/transactions?reference=${encodeURIComponent(reference)}`
+}
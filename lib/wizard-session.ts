@@ -0,0 +1,50 @@
+import type { RepeatableType } from "./repeat-transaction"
+import type { TemplateChoices } from "./templates"
+
+// Unfinished deposit and withdrawal flows are kept in sessionStorage so that a reload,
+// typically after switching to the Mobile Money app, doesn't lose the user's choices.
+// Only ids are stored: they are checked against fresh API data before being reused.
+// Withdrawal codes are never stored.
+
+export interface WizardSnapshot extends TemplateChoices {
+  userId: string
+  step: number
+  /** Shown in the "Reprendre" prompt before the choices are checked again */
+  platformName: string | null
+  savedAt: number
+}
+
+const KEY_PREFIX = "wizard_"
+// Older flows are dropped rather than offered
+const SNAPSHOT_MAX_AGE_MS = 30 * 60 * 1000
+
+export function saveWizardSnapshot(type: RepeatableType, snapshot: Omit<WizardSnapshot, "savedAt">) {
+  try {
+    sessionStorage.setItem(KEY_PREFIX + type, JSON.stringify({ ...snapshot, savedAt: Date.now() }))
+  } catch (error) {
+    console.warn("Could not save the wizard state:", error)
+  }
+}
+
+export function readWizardSnapshot(type: RepeatableType, userId: string): WizardSnapshot | null {
+  try {
+    const raw = sessionStorage.getItem(KEY_PREFIX + type)
+    if (!raw) return null
+    const snapshot: WizardSnapshot = JSON.parse(raw)
+    if (snapshot.userId !== userId || Date.now() - snapshot.savedAt > SNAPSHOT_MAX_AGE_MS) {
+      clearWizardSnapshot(type)
+      return null
+    }
+    return snapshot
+  } catch {
+    return null
+  }
+}
+
+export function clearWizardSnapshot(type: RepeatableType) {
+  try {
+    sessionStorage.removeItem(KEY_PREFIX + type)
+  } catch {
+    // Nothing to clear when storage is unavailable
+  }
+}
@@ -0,0 +1,89 @@
+import type { ReactNode } from "react"
+import type { RepeatableType } from "./repeat-transaction"
+import type { Network, Platform, Transaction, UserAppId, UserPhone } from "./types"
+
+// A transaction flow is a declarative list of steps run by `TransactionWizard`, which owns
+// the step state, navigation, confirmation, pre-filling and resuming. A flow type only
+// describes its steps and how its transaction is submitted and followed up.
+
+/** Query parameter holding the current step, so browser back and forward move between steps */
+export const STEP_PARAM = "step"
+
+export interface WizardValues {
+  platform: Platform | null
+  betId: UserAppId | null
+  network: Network | null
+  phone: UserPhone | null
+  amount: number
+  /** Withdrawals only, never persisted */
+  withdriwalCode: string
+}
+
+export const EMPTY_WIZARD_VALUES: WizardValues = {
+  platform: null,
+  betId: null,
+  network: null,
+  phone: null,
+  amount: 0,
+  withdriwalCode: "",
+}
+
+/** Per-type state returned by the flow's `useFlow` hook on every render */
+export interface WizardFlowHooks {
+  /** Keeps the wizard behind a spinner while the flow loads what it needs */
+  isLoading?: boolean
+  /** Shown instead of the steps when the flow can't be used right now */
+  blocker?: ReactNode
+  /** Extra amount check, returns the reason the amount is refused */
+  validateAmount?: (amount: number) => string | null
+  /** Amount still allowed by the flow's own limits, null when there is none */
+  remainingAllowance?: number | null
+  /** Called when a past transaction or a template filled every step, true opens the confirmation right away */
+  onPrefilled?: (values: WizardValues) => boolean
+  /** Last check once the user confirmed, returns the reason the transaction is refused */
+  beforeSubmit?: (values: WizardValues) => Promise<string | null>
+  submit: (values: WizardValues, options: { idempotencyKey?: string }) => Promise<Transaction>
+  /** Runs once the transaction is created, or once a pending one is finalized */
+  afterSubmit: (transaction: Transaction, values: WizardValues) => Promise<void> | void
+  /** Dialogs opened by `afterSubmit` */
+  dialogs?: ReactNode
+}
+
+export interface WizardStepContext {
+  type: RepeatableType
+  values: WizardValues
+  update: (patch: Partial<WizardValues>) => void
+  onNext: () => void
+  flow: WizardFlowHooks
+}
+
+export interface WizardStep {
+  /** Shown in the progress bar */
+  label: string
+  isComplete: (context: WizardStepContext) => boolean
+  render: (context: WizardStepContext) => ReactNode
+}
+
+export interface WizardFlow {
+  type: RepeatableType
+  title: string
+  description: string
+  steps: WizardStep[]
+  /** Asks the user to finish or cancel their pending transaction of this type before starting a new one */
+  guardPending?: boolean
+  successMessage: string
+  errorMessage: string
+  /** Called by the wizard like a hook, so it can use hooks itself */
+  useFlow: () => WizardFlowHooks
+}
+
+/** Fields every transaction request shares, only meaningful once every step is complete */
+export function getTransactionData(values: WizardValues) {
+  return {
+    amount: values.amount,
+    phone_number: values.phone?.phone || "",
+    app: values.platform?.id || "",
+    user_app_id: values.betId?.user_app_id || "",
+    network: values.network?.id || 0,
+  }
+}